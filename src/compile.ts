@@ -4,25 +4,63 @@ import { binder } from "./compiler/binder/index.js";
 import { checker } from "./compiler/checker/index.js";
 import { transform } from "./compiler/transform/index.js";
 import { emitter } from "./compiler/emitter/index.js";
-import { errors } from './compiler/error.js';
+import { createDiagnosticCollection, setDiagnosticCollection, formatDiagnostic } from './compiler/error.js';
+import { createProgram } from './compiler/program.js';
+import type { CompilerOptions } from './compiler/parser/type.js';
 
-const compile = (code: string) => {
-  errors.clear()
+const compile = (code: string, fileName = "input.ts", options: CompilerOptions = {}) => {
+  const diagnostics = createDiagnosticCollection()
+  setDiagnosticCollection(diagnostics)
 
   const _scanner = scanner(code);
   console.log('_scanner', _scanner);
-  const _parser = parser(_scanner);
+  const _parser = parser(_scanner, fileName);
   console.log('_parser', _parser);
   binder(_parser);
-  checker(_parser);
+  checker(_parser, options);
   const _transform = transform(_parser.statements);
   console.log('_transform', _transform);
-  const _emitter = emitter(_transform);
+  const _emitter = emitter(_transform, _parser.trailingComments);
   console.log('_emitter', _emitter);
+  setDiagnosticCollection(undefined)
+  const _diagnostics = diagnostics.getDiagnostics();
+  for (const d of _diagnostics) {
+    console.log(formatDiagnostic(d, { getSourceText: () => code, getDisplayFileName: name => name }));
+  }
 
-  return [_parser, Array.from(errors.values()), _emitter];
+  return [_parser, _diagnostics, _emitter];
 };
 
-const code = "var test: number = 1";
+// 複数のファイルからなるプログラムを、ルートのファイルから import をたどって解析する
+// json が true の場合は、CI などのツールで読み込めるよう、エラーの一覧の JSON のみを出力する
+const compileProgram = (rootFileNames: string[], options: CompilerOptions = {}, json = false) => {
+  const program = createProgram(rootFileNames, options);
+  const outputs = program.emit();
+  if (json) {
+    console.log(program.formatDiagnosticsAsJson());
+    return [program, program.getDiagnostics(), outputs];
+  }
+  for (const [fileName, output] of outputs) {
+    console.log(`// ${fileName}\n${output}`);
+  }
+  for (const message of program.formatDiagnostics()) {
+    console.log(message);
+  }
 
-compile(code);
\ No newline at end of file
+  return [program, program.getDiagnostics(), outputs];
+};
+
+// コマンドライン引数でファイル名が渡された場合は、そのファイルをルートとするプログラムを解析する
+// "--" から始まる引数は、型チェックの設定とする（"--json" の場合は、エラーの一覧を JSON で出力する）
+// 例）npm start -- src/main.ts --strictNullChecks
+const args = process.argv.slice(2);
+const options: CompilerOptions = { strictNullChecks: args.includes("--strictNullChecks") };
+const rootFileNames = args.filter(arg => !arg.startsWith("--"));
+if (rootFileNames.length) {
+  compileProgram(rootFileNames, options, args.includes("--json"));
+}
+else {
+  const code = "var test: number = 1";
+
+  compile(code);
+}
\ No newline at end of file
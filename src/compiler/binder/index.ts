@@ -1,10 +1,16 @@
-import { Expression, Module, Node, Location, SyntaxKind, Statement, TypeNode, Table, Declaration, Meaning } from '../parser/type.js'
-import { error } from '../error.js'
+import { Expression, Module, Node, Location, SyntaxKind, Statement, TypeNode, Table, Declaration, Meaning, TypeParameter, Parameter, Class, ClassElement, ExportableDeclaration, Function, ArrowFunction, Method, Constructor, Var, Assignment, FlowKind, FlowNode, FlowLabel } from '../parser/type.js'
+import { error, addRelatedInformation } from '../error.js'
+import { Diagnostics } from '../diagnosticMessages.js'
 
 // 宣言に関する値を管理する値
-export const valueDeclarations = new Set([SyntaxKind.Var, SyntaxKind.Object, SyntaxKind.PropertyAssignment, SyntaxKind.PropertyDeclaration, SyntaxKind.Parameter])
-// 型エイリアスの宣言を管理する値
-export const typeDeclarations = new Set([SyntaxKind.TypeAlias])
+export const valueDeclarations = new Set([SyntaxKind.Var, SyntaxKind.Function, SyntaxKind.Object, SyntaxKind.PropertyAssignment, SyntaxKind.PropertyDeclaration, SyntaxKind.Method, SyntaxKind.Parameter])
+// 型エイリアス・インターフェースの宣言を管理する値
+export const typeDeclarations = new Set([SyntaxKind.TypeAlias, SyntaxKind.Interface])
+// 値と型の両方の意味を持つ宣言を管理する値（クラスは、コンストラクタとしての値とインスタンスの型の両方を表す）
+// import した名前は、import 元の宣言がどちらの意味を持つかわからないため、両方の意味を持つものとして扱う
+export const valueAndTypeDeclarations = new Set([SyntaxKind.Class, SyntaxKind.ImportSpecifier])
+// 到達できない位置を表す制御フローグラフのノード（すべての到達できない位置で共有する）
+const unreachableFlow: FlowNode = { kind: FlowKind.Unreachable }
 
 /**
  * [全体像]
@@ -13,41 +19,333 @@ export const typeDeclarations = new Set([SyntaxKind.TypeAlias])
  * 3. 各文の中で出現する式や型に対しても再帰的に処理（bindExpression / bindType）を行い、必要に応じてシンボルテーブルへ登録（declareSymbol）する
  * 4. すべてのノードに対して、親ノードとの関係（setParents）を記録することで、後続の解析やエラー報告を助ける構造にする
  * 5. 同じ名前での重複宣言や、値・型の意味の不一致などをチェックする（declareSymbol）
+ * 6. export された宣言のシンボルは、モジュールの exports にも登録する（bindExport）
+ * 7. 文をたどりながら、関数・モジュールの本体ごとに制御フローグラフを作成し、各文の flowNode と関数の endFlowNode に設定する
  */
 export function binder(m: Module) {
+  // 制御フローグラフの現在の位置のノードと、break・continue で移動する先のノード
+  let currentFlow: FlowNode = { kind: FlowKind.Start, node: m }
+  let currentBreakTarget: FlowLabel | undefined
+  let currentContinueTarget: FlowLabel | undefined
   setParents(m, m.statements)
   for (const statement of m.statements) {
     bindStatement(m.locals, statement)
   }
 
   // 文（Statement）の種類に応じて、親子関係の設定やシンボルの登録、再帰的な解析を行う関数
-  function bindStatement(locals: Table, statement: Statement) {
+  // locals: var で宣言された変数を登録する、関数・モジュールのスコープ
+  // blockLocals: let・const で宣言された変数を登録する、最も内側のブロックのスコープ
+  function bindStatement(locals: Table, statement: Statement, blockLocals: Table = locals) {
+    statement.flowNode = currentFlow
     switch (statement.kind) {
       // 変数宣言の場合
+      // var は関数・モジュールのスコープに、let・const はブロックのスコープに登録する
       case SyntaxKind.Var:
         setParents(statement, [statement.name, statement.typename, statement.initializer])
         bindExpression(statement.initializer)
         bindType(statement.typename)
-        declareSymbol(locals, statement, Meaning.Value)
+        currentFlow = createFlowAssignment(statement)
+        declareSymbol(statement.keyword === "var" ? locals : blockLocals, statement, Meaning.Value)
+        bindExport(statement, blockLocals)
         break
       // 型定義の場合
+      // 型パラメータは、型エイリアスのスコープ（statement.locals）に登録する
       case SyntaxKind.TypeAlias:
-        setParents(statement, [statement.name, statement.typename])
+        setParents(statement, [statement.name, ...statement.typeParameters ?? [], statement.typename])
+        bindParameters(statement.locals, statement.typeParameters, [])
         bindType(statement.typename)
         declareSymbol(locals, statement, Meaning.Type)
+        bindExport(statement, blockLocals)
+        break
+      // インターフェース宣言の場合
+      // プロパティは宣言ごとの members に登録し、同じ名前の宣言はシンボルにまとめる（declareSymbol）
+      case SyntaxKind.Interface:
+        setParents(statement, [statement.name, ...statement.heritage ?? [], ...statement.properties])
+        for (const property of statement.properties) {
+          setParents(property, [property.name, property.typename])
+          bindType(property.typename)
+          declareSymbol(statement.members, property, Meaning.Value)
+        }
+        declareSymbol(locals, statement, Meaning.Type)
+        bindExport(statement, blockLocals)
+        break
+      // クラス宣言の場合
+      // クラスは let・const と同じくブロックのスコープに登録する
+      case SyntaxKind.Class:
+        setParents(statement, [statement.name, ...statement.elements])
+        for (const element of statement.elements) {
+          bindClassElement(statement, element)
+        }
+        declareSymbol(blockLocals, statement, Meaning.Value)
+        bindExport(statement, blockLocals)
+        break
+      // 関数宣言の場合
+      // 関数宣言は var と同じく関数・モジュールのスコープに登録する（巻き上げ）
+      // スコープに登録されるため、宣言より前の位置や、関数自身の本体の中（再帰呼び出し）から参照することができる
+      case SyntaxKind.Function:
+        bindExpression(statement)
+        declareSymbol(locals, statement, Meaning.Value)
+        bindExport(statement, blockLocals)
+        break
+      // import 宣言の場合
+      // import した名前は、モジュールのスコープに登録する（import 元のシンボルへの解決は checker で行う）
+      // type がついた名前は型としてのみ使うことができる
+      case SyntaxKind.Import:
+        setParents(statement, [...statement.specifiers, statement.moduleSpecifier])
+        if (blockLocals !== m.locals) {
+          error(statement, Diagnostics.An_import_declaration_can_only_be_used_at_the_top_level_of_a_module)
+        }
+        for (const specifier of statement.specifiers) {
+          setParents(specifier, [specifier.propertyName, specifier.name])
+          declareSymbol(locals, specifier, specifier.isTypeOnly ? Meaning.Type : Meaning.Value)
+        }
         break
       // 式文の場合
       case SyntaxKind.ExpressionStatement:
       // return 文の場合
       case SyntaxKind.Return:
         setParents(statement, [statement.expression])
+        if (statement.expression) {
+          bindExpression(statement.expression)
+        }
+        // return文の後ろには到達できない
+        if (statement.kind === SyntaxKind.Return) {
+          currentFlow = unreachableFlow
+        }
+        break
+      // ブロックの場合
+      // ブロックは let・const の新しいスコープになる
+      // var で宣言された変数はブロックではなく、外側の関数・モジュールのスコープに登録する
+      case SyntaxKind.Block:
+        setParents(statement, statement.statements)
+        for (const s of statement.statements) {
+          bindStatement(locals, s, statement.locals)
+        }
+        break
+      // if文の場合
+      // 条件式が true の経路で then の文を、false の経路で else の文を解析し、if文の後ろで合流させる
+      case SyntaxKind.If: {
+        setParents(statement, [statement.expression, statement.thenStatement, statement.elseStatement])
+        bindExpression(statement.expression)
+        const postIfLabel = createFlowLabel(FlowKind.BranchLabel)
+        const falseFlow = createFlowCondition(FlowKind.FalseCondition, currentFlow, statement.expression)
+        currentFlow = createFlowCondition(FlowKind.TrueCondition, currentFlow, statement.expression)
+        bindStatement(locals, statement.thenStatement, blockLocals)
+        addAntecedent(postIfLabel, currentFlow)
+        currentFlow = falseFlow
+        if (statement.elseStatement) {
+          bindStatement(locals, statement.elseStatement, blockLocals)
+        }
+        addAntecedent(postIfLabel, currentFlow)
+        currentFlow = finishFlowLabel(postIfLabel)
+        break
+      }
+      // while文の場合
+      // ループの先頭で条件式を評価し、true の経路で本体を、false の経路でループの後ろに進む
+      // 本体の末尾と continue からはループの先頭に、break からはループの後ろに進む
+      case SyntaxKind.While: {
+        setParents(statement, [statement.expression, statement.statement])
+        const preLoopLabel = createFlowLabel(FlowKind.LoopLabel)
+        const postLoopLabel = createFlowLabel(FlowKind.BranchLabel)
+        addAntecedent(preLoopLabel, currentFlow)
+        currentFlow = finishFlowLabel(preLoopLabel)
+        bindExpression(statement.expression)
+        addAntecedent(postLoopLabel, createFlowCondition(FlowKind.FalseCondition, currentFlow, statement.expression))
+        currentFlow = createFlowCondition(FlowKind.TrueCondition, currentFlow, statement.expression)
+        bindIterationBody(locals, statement.statement, blockLocals, postLoopLabel, preLoopLabel)
+        addAntecedent(preLoopLabel, currentFlow)
+        currentFlow = finishFlowLabel(postLoopLabel)
+        break
+      }
+      // do-while文の場合
+      // 本体を実行した後に条件式を評価し、true の経路でループの先頭に、false の経路でループの後ろに進む
+      // continue からは条件式の評価に、break からはループの後ろに進む
+      case SyntaxKind.DoWhile: {
+        setParents(statement, [statement.expression, statement.statement])
+        const preLoopLabel = createFlowLabel(FlowKind.LoopLabel)
+        const preConditionLabel = createFlowLabel(FlowKind.BranchLabel)
+        const postLoopLabel = createFlowLabel(FlowKind.BranchLabel)
+        addAntecedent(preLoopLabel, currentFlow)
+        currentFlow = finishFlowLabel(preLoopLabel)
+        bindIterationBody(locals, statement.statement, blockLocals, postLoopLabel, preConditionLabel)
+        addAntecedent(preConditionLabel, currentFlow)
+        currentFlow = finishFlowLabel(preConditionLabel)
         bindExpression(statement.expression)
+        addAntecedent(preLoopLabel, createFlowCondition(FlowKind.TrueCondition, currentFlow, statement.expression))
+        addAntecedent(postLoopLabel, createFlowCondition(FlowKind.FalseCondition, currentFlow, statement.expression))
+        currentFlow = finishFlowLabel(postLoopLabel)
+        break
+      }
+      // for文の場合
+      // 初期化部分で let・const で宣言された変数は、for文自体のスコープに登録する
+      // 制御フローは while文と同じで、本体の末尾と continue からは更新部分を評価してからループの先頭に進む
+      // 条件式を省略した場合は、ループの後ろには break からのみ進む
+      case SyntaxKind.For: {
+        setParents(statement, [statement.initializer, statement.condition, statement.incrementor, statement.statement])
+        if (statement.initializer?.kind === SyntaxKind.Var) {
+          bindStatement(locals, statement.initializer, statement.locals)
+        }
+        else if (statement.initializer) {
+          bindExpression(statement.initializer)
+        }
+        const preLoopLabel = createFlowLabel(FlowKind.LoopLabel)
+        const preIncrementorLabel = createFlowLabel(FlowKind.BranchLabel)
+        const postLoopLabel = createFlowLabel(FlowKind.BranchLabel)
+        addAntecedent(preLoopLabel, currentFlow)
+        currentFlow = finishFlowLabel(preLoopLabel)
+        if (statement.condition) {
+          bindExpression(statement.condition)
+        }
+        addAntecedent(postLoopLabel, createFlowCondition(FlowKind.FalseCondition, currentFlow, statement.condition))
+        currentFlow = createFlowCondition(FlowKind.TrueCondition, currentFlow, statement.condition)
+        bindIterationBody(locals, statement.statement, statement.locals, postLoopLabel, preIncrementorLabel)
+        addAntecedent(preIncrementorLabel, currentFlow)
+        currentFlow = finishFlowLabel(preIncrementorLabel)
+        if (statement.incrementor) {
+          bindExpression(statement.incrementor)
+        }
+        addAntecedent(preLoopLabel, currentFlow)
+        currentFlow = finishFlowLabel(postLoopLabel)
+        break
+      }
+      // break文・continue文の場合は、移動する先のノードに経路を追加し、その後ろには到達できない
+      // 繰り返し処理の外側で使われた場合は、checker でエラーを報告する
+      case SyntaxKind.Break:
+      case SyntaxKind.Continue: {
+        const target = statement.kind === SyntaxKind.Break ? currentBreakTarget : currentContinueTarget
+        if (target) {
+          addAntecedent(target, currentFlow)
+        }
+        currentFlow = unreachableFlow
         break
+      }
       default:
         throw new Error(`Unexpected statement kind ${SyntaxKind[(statement as Statement).kind]}`)
     }
   }
 
+  // ループの本体を、break・continue で移動する先のノードを設定した上で解析する関数
+  function bindIterationBody(locals: Table, statement: Statement, blockLocals: Table, breakTarget: FlowLabel, continueTarget: FlowLabel) {
+    const saveBreakTarget = currentBreakTarget
+    const saveContinueTarget = currentContinueTarget
+    currentBreakTarget = breakTarget
+    currentContinueTarget = continueTarget
+    bindStatement(locals, statement, blockLocals)
+    currentBreakTarget = saveBreakTarget
+    currentContinueTarget = saveContinueTarget
+  }
+
+  // 関数の本体を解析し、関数ごとの制御フローグラフを作成する関数
+  // 本体は呼び出されるまで実行されないため、外側の制御フローとは別の開始位置のノードから作成し、本体の末尾のノードを endFlowNode に設定する
+  // アロー関数の本体が式の場合は、その式を解析する
+  function bindFunctionBody(func: Function | ArrowFunction | Method | Constructor, body: Statement[] | Expression) {
+    const saveFlow = currentFlow
+    const saveBreakTarget = currentBreakTarget
+    const saveContinueTarget = currentContinueTarget
+    currentFlow = { kind: FlowKind.Start, node: func }
+    currentBreakTarget = undefined
+    currentContinueTarget = undefined
+    if (Array.isArray(body)) {
+      for (const statement of body) {
+        bindStatement(func.locals, statement)
+      }
+    }
+    else {
+      bindExpression(body)
+    }
+    func.endFlowNode = currentFlow
+    currentFlow = saveFlow
+    currentBreakTarget = saveBreakTarget
+    currentContinueTarget = saveContinueTarget
+  }
+
+  // 複数の経路が合流する位置のノードを作成する関数
+  function createFlowLabel(kind: FlowKind.BranchLabel | FlowKind.LoopLabel): FlowLabel {
+    return { kind, antecedents: [] }
+  }
+
+  // 合流する位置のノードに、そこへ進む経路（antecedent）を追加する関数
+  // 到達できない経路は追加しない
+  function addAntecedent(label: FlowLabel, antecedent: FlowNode) {
+    if (antecedent.kind !== FlowKind.Unreachable && !label.antecedents.includes(antecedent)) {
+      label.antecedents.push(antecedent)
+    }
+  }
+
+  // 合流する位置のノードへの経路の追加を終えて、その位置のノードを取得する関数
+  // 到達できる経路が1つもない場合は到達できない位置とし、経路が1つだけの場合はその経路のノードをそのまま使う
+  // ループの先頭のノードは、この後にループの末尾からの経路を追加するため、そのまま使う
+  function finishFlowLabel(label: FlowLabel): FlowNode {
+    if (!label.antecedents.length) {
+      return unreachableFlow
+    }
+    if (label.kind === FlowKind.BranchLabel && label.antecedents.length === 1) {
+      return label.antecedents[0]
+    }
+    return label
+  }
+
+  // 変数への代入を表すノードを作成する関数（到達できない位置の場合は作成しない）
+  function createFlowAssignment(node: Var | Assignment): FlowNode {
+    return currentFlow.kind === FlowKind.Unreachable ? currentFlow : { kind: FlowKind.Assignment, node, antecedent: currentFlow }
+  }
+
+  // 条件式の結果によって進む経路のノードを作成する関数
+  // 条件式が true・false のリテラルの場合は、条件式の結果が決まっているため、反対の経路には到達できない（例: while (true) の後ろ）
+  // 条件式を省略した場合（for (;;)）は、常に true として扱う
+  function createFlowCondition(kind: FlowKind.TrueCondition | FlowKind.FalseCondition, antecedent: FlowNode, expression: Expression | undefined): FlowNode {
+    if (antecedent.kind === FlowKind.Unreachable) {
+      return antecedent
+    }
+    const value = !expression ? true : expression.kind === SyntaxKind.BooleanLiteral ? expression.value : undefined
+    if (value !== undefined) {
+      return value === (kind === FlowKind.TrueCondition) ? antecedent : unreachableFlow
+    }
+    return { kind, expression: expression!, antecedent }
+  }
+
+  // export された宣言のシンボルを、モジュールの exports に登録する関数
+  // locals と同じシンボルを登録するため、他のファイルから import した場合も同じ型を参照する
+  // export はモジュールの最上位の宣言にのみつけることができる
+  function bindExport(declaration: ExportableDeclaration, blockLocals: Table) {
+    if (!declaration.isExported) return
+    if (blockLocals !== m.locals) {
+      error(declaration, Diagnostics.Modifiers_cannot_appear_here)
+      return
+    }
+    m.exports.set(getDeclarationName(declaration), declaration.symbol)
+  }
+
+  // クラスの要素（フィールド・メソッド・コンストラクタ）の親子関係の設定やシンボルの登録を行う関数
+  // フィールドとメソッドはインスタンスのメンバーとして、クラスの members に登録する
+  function bindClassElement(declaration: Class, element: ClassElement) {
+    switch (element.kind) {
+      // フィールドの場合
+      case SyntaxKind.PropertyDeclaration:
+        setParents(element, [element.name, element.typename, element.initializer])
+        bindType(element.typename)
+        if (element.initializer) {
+          bindExpression(element.initializer)
+        }
+        declareSymbol(declaration.members, element, Meaning.Value)
+        break
+      // メソッドの場合
+      case SyntaxKind.Method:
+        setParents(element, [element.name, ...element.typeParameters ?? [], ...element.parameters, element.typename, ...element.body])
+        bindType(element.typename)
+        bindParameters(element.locals, element.typeParameters, element.parameters)
+        bindFunctionBody(element, element.body)
+        declareSymbol(declaration.members, element, Meaning.Value)
+        break
+      // コンストラクタの場合
+      case SyntaxKind.Constructor:
+        setParents(element, [...element.parameters, ...element.body])
+        bindParameters(element.locals, undefined, element.parameters)
+        bindFunctionBody(element, element.body)
+        break
+    }
+  }
+
   // 式 (Expression) の種類に応じて、親子関係の設定やシンボルの登録、再帰的な解析を行う関数
   function bindExpression(expr: Expression) {
     switch (expr.kind) {
@@ -64,23 +362,69 @@ export function binder(m: Module) {
       case SyntaxKind.Function:
         setParents(expr, [expr.name, ...expr.typeParameters ?? [], ...expr.parameters, expr.typename, ...expr.body])
         bindType(expr.typename)
-        for (const typeParameter of expr.typeParameters ?? []) {
-          setParents(typeParameter, [typeParameter.name])
-          declareSymbol(expr.locals, typeParameter, Meaning.Type)
-        }
-        for (const parameter of expr.parameters) {
-          setParents(parameter, [parameter.name, parameter.typename])
-          bindType(parameter.typename)
-          declareSymbol(expr.locals, parameter, Meaning.Value)
-        }
-        for (const statement of expr.body) {
-          bindStatement(expr.locals, statement)
-        }
+        bindParameters(expr.locals, expr.typeParameters, expr.parameters)
+        bindFunctionBody(expr, expr.body)
+        break
+      // アロー関数の場合
+      // 本体がブロックの場合は関数と同じく文を解析し、式の場合はその式を解析する
+      case SyntaxKind.ArrowFunction:
+        const body = Array.isArray(expr.body) ? expr.body : [expr.body]
+        setParents(expr, [...expr.typeParameters ?? [], ...expr.parameters, expr.typename, ...body])
+        bindType(expr.typename)
+        bindParameters(expr.locals, expr.typeParameters, expr.parameters)
+        bindFunctionBody(expr, expr.body)
         break
       // 代入の場合
+      // 変数への代入の場合は、代入した後の位置を表すノードを作成する
       case SyntaxKind.Assignment:
         setParents(expr, [expr.name, expr.value])
+        bindExpression(expr.name)
         bindExpression(expr.value)
+        if (expr.name.kind === SyntaxKind.Identifier) {
+          currentFlow = createFlowAssignment(expr)
+        }
+        break
+      // new 式の場合
+      case SyntaxKind.New:
+        setParents(expr, [expr.expression, ...expr.arguments])
+        bindExpression(expr.expression)
+        for (const arg of expr.arguments) {
+          bindExpression(arg)
+        }
+        break
+      // プロパティアクセスの場合
+      case SyntaxKind.PropertyAccess:
+        setParents(expr, [expr.expression, expr.name])
+        bindExpression(expr.expression)
+        break
+      // 要素アクセスの場合
+      case SyntaxKind.ElementAccess:
+        setParents(expr, [expr.expression, expr.argumentExpression])
+        bindExpression(expr.expression)
+        bindExpression(expr.argumentExpression)
+        break
+      // 二項演算子の式の場合
+      // "&&" の右辺は左辺が true の経路で、"||" の右辺は左辺が false の経路で評価し、式の後ろで左辺だけを評価した経路と合流させる
+      case SyntaxKind.BinaryExpression:
+        setParents(expr, [expr.left, expr.right])
+        bindExpression(expr.left)
+        if (expr.operator === "&&" || expr.operator === "||") {
+          const postExpressionLabel = createFlowLabel(FlowKind.BranchLabel)
+          const isAnd = expr.operator === "&&"
+          addAntecedent(postExpressionLabel, createFlowCondition(isAnd ? FlowKind.FalseCondition : FlowKind.TrueCondition, currentFlow, expr.left))
+          currentFlow = createFlowCondition(isAnd ? FlowKind.TrueCondition : FlowKind.FalseCondition, currentFlow, expr.left)
+          bindExpression(expr.right)
+          addAntecedent(postExpressionLabel, currentFlow)
+          currentFlow = finishFlowLabel(postExpressionLabel)
+        }
+        else {
+          bindExpression(expr.right)
+        }
+        break
+      // 前置単項演算子の式の場合
+      case SyntaxKind.PrefixUnaryExpression:
+        setParents(expr, [expr.operand])
+        bindExpression(expr.operand)
         break
       // 関数呼び出しの場合
       case SyntaxKind.Call:
@@ -93,16 +437,68 @@ export function binder(m: Module) {
           bindExpression(arg)
         }
         break
-      // 識別子・文字列・数値の場合
+      // 配列リテラルの場合
+      case SyntaxKind.ArrayLiteral:
+        setParents(expr, expr.elements)
+        for (const element of expr.elements) {
+          bindExpression(element)
+        }
+        break
+      // テンプレートリテラルの場合
+      case SyntaxKind.TemplateExpression:
+        setParents(expr, expr.templateSpans.map(span => span.expression))
+        for (const span of expr.templateSpans) {
+          bindExpression(span.expression)
+        }
+        break
+      // 識別子の場合は、参照した位置での変数の型を制御フローグラフから求めるため、現在の位置のノードを設定する
       case SyntaxKind.Identifier:
+        expr.flowNode = currentFlow
+        break
+      // this・文字列・数値・真偽値・null・undefined の場合
+      case SyntaxKind.This:
       case SyntaxKind.StringLiteral:
       case SyntaxKind.NumericLiteral:
+      case SyntaxKind.BigIntLiteral:
+      case SyntaxKind.BooleanLiteral:
+      case SyntaxKind.NullLiteral:
+      case SyntaxKind.UndefinedLiteral:
         break
       default:
         throw new Error(`Unexpected expression kind ${SyntaxKind[(expr as Expression).kind]}`)
     }
   }
 
+  // 関数・アロー関数の型パラメータと引数を、関数のスコープ（locals）に登録する関数
+  function bindParameters(locals: Table, typeParameters: TypeParameter[] | undefined, parameters: Parameter[]) {
+    for (const typeParameter of typeParameters ?? []) {
+      bindTypeParameter(locals, typeParameter)
+    }
+    for (const parameter of parameters) {
+      bindParameter(locals, parameter)
+    }
+  }
+
+  // 型パラメータの親子関係の設定と、スコープ（locals）への登録を行う関数
+  // 制約とデフォルトの型は、同じスコープの型パラメータを参照することができる（例: <T, U extends T[] = T[]>）
+  function bindTypeParameter(locals: Table, typeParameter: TypeParameter) {
+    setParents(typeParameter, [typeParameter.name, typeParameter.constraint, typeParameter.default])
+    bindType(typeParameter.constraint)
+    bindType(typeParameter.default)
+    declareSymbol(locals, typeParameter, Meaning.Type)
+  }
+
+  // 引数の親子関係の設定と、スコープ（locals）への登録を行う関数
+  // デフォルト値の式は、それより前の引数を参照することができる
+  function bindParameter(locals: Table, parameter: Parameter) {
+    setParents(parameter, [parameter.name, parameter.typename, parameter.initializer])
+    bindType(parameter.typename)
+    if (parameter.initializer) {
+      bindExpression(parameter.initializer)
+    }
+    declareSymbol(locals, parameter, Meaning.Value)
+  }
+
   // 型情報を解析し、シンボルテーブルに型や値の情報を関連付ける役割
   function bindType(type: TypeNode | undefined) {
     // どのような型情報かを判別する
@@ -120,13 +516,41 @@ export function binder(m: Module) {
       case SyntaxKind.Signature:
         setParents(type, [...type.typeParameters ?? [], ...type.parameters, type.typename])
         for (const typeParameter of type.typeParameters ?? []) {
-          setParents(typeParameter, [typeParameter.name])
-          declareSymbol(type.locals, typeParameter, Meaning.Type)
+          bindTypeParameter(type.locals, typeParameter)
         }
         for (const parameter of type.parameters) {
-        setParents(parameter, [parameter.name, parameter.typename])
-            bindType(parameter.typename)
-            declareSymbol(type.locals, parameter, Meaning.Value)
+          bindParameter(type.locals, parameter)
+        }
+        break
+      // 配列の型定義の場合
+      case SyntaxKind.ArrayType:
+        setParents(type, [type.elementType])
+        bindType(type.elementType)
+        break
+      // タプルの型定義の場合
+      case SyntaxKind.TupleType:
+        setParents(type, type.elementTypes)
+        for (const elementType of type.elementTypes) {
+          bindType(elementType)
+        }
+        break
+      // ユニオン型・インターセクション型の型定義の場合
+      case SyntaxKind.UnionType:
+      case SyntaxKind.IntersectionType:
+        setParents(type, type.types)
+        for (const t of type.types) {
+          bindType(t)
+        }
+        break
+      // リテラル型の型定義の場合
+      case SyntaxKind.LiteralType:
+        setParents(type, [type.literal])
+        break
+      // 型引数を指定した型の参照の場合
+      case SyntaxKind.TypeReference:
+        setParents(type, [type.typeName, ...type.typeArguments])
+        for (const typeArgument of type.typeArguments) {
+          bindType(typeArgument)
         }
         break
       // 型名などを指している場合
@@ -145,10 +569,15 @@ export function binder(m: Module) {
     // すでに同じ名前の宣言があるかどうかを取得する
     let symbol = container.get(name)
     if (symbol) {
-      // すでに存在するシンボルに対して、同じ意味の宣言があるか探す
-      const other = symbol.declarations.find(d => meaning === getMeaning(d))
-      if (other) {
-        error(declaration.pos, `Cannot redeclare ${name}; first declared at ${other.pos}`)
+      // すでに存在するシンボルに対して、同じ意味の宣言があるか探す（クラスは値と型の両方の宣言と重複する）
+      // インターフェース同士の場合は、宣言をまとめる（宣言のマージ）ため重複とはしない
+      const other = symbol.declarations.find(d => hasMeaning(d, meaning) || hasMeaning(declaration, getMeaning(d)))
+      // エラーには、最初の宣言の位置を関連する位置として付ける（名前が (missing) の宣言は、すでに構文エラーを報告しているため報告しない）
+      if (other && !(other.kind === SyntaxKind.Interface && declaration.kind === SyntaxKind.Interface)) {
+        if (!isMissingName(declaration)) {
+          const diagnostic = error(declaration, Diagnostics.Cannot_redeclare_0, name)
+          addRelatedInformation(diagnostic, other, Diagnostics._0_was_first_declared_here, name)
+        }
       }
       else {
         symbol.declarations.push(declaration)
@@ -181,21 +610,41 @@ export function getMeaning(declaration: Declaration) {
   return valueDeclarations.has(declaration.kind) ? Meaning.Value : Meaning.Type
 }
 
+// AST（抽象構文木）の宣言が、指定された意味（値・型）を持つかどうかを判別する
+// クラスのように値と型の両方の意味を持つ宣言は、どちらの意味でも true になる
+// ただし、type がついた import は型の意味のみを持つ
+export function hasMeaning(declaration: Declaration, meaning: Meaning) {
+  const isTypeOnlyImport = declaration.kind === SyntaxKind.ImportSpecifier && declaration.isTypeOnly
+  return (valueAndTypeDeclarations.has(declaration.kind) && !isTypeOnlyImport) || getMeaning(declaration) === meaning
+}
+
+// 宣言の名前が、構文エラーのために補った (missing) の識別子かどうかを判別する
+function isMissingName(declaration: Declaration) {
+  return "name" in declaration && !!declaration.name?.isMissing
+}
+
 // AST（抽象構文木）の宣言名を取得する
 // （例）const x = 10; から x を取得する
 export function getDeclarationName(node: Declaration) {
   switch (node.kind) {
     case SyntaxKind.Var:
     case SyntaxKind.TypeAlias:
+    case SyntaxKind.Interface:
+    case SyntaxKind.Class:
+    case SyntaxKind.Method:
     case SyntaxKind.PropertyAssignment:
     case SyntaxKind.PropertyDeclaration:
     case SyntaxKind.Parameter:
     case SyntaxKind.TypeParameter:
+    case SyntaxKind.ImportSpecifier:
       return node.name.text
     case SyntaxKind.Object:
       return "__object"
+    // 関数宣言は名前を持つが、名前のない関数式の場合は "__function" とする
+    case SyntaxKind.Function:
+      return node.name ? node.name.text : "__function"
     default:
-      error((node as Declaration).pos, `Cannot get name of ${SyntaxKind[(node as Declaration).kind]}`)
+      error(node as Declaration, Diagnostics.Cannot_get_name_of_0, SyntaxKind[(node as Declaration).kind])
       return "__missing"
   }
 }
@@ -1,7 +1,8 @@
-import { SyntaxKind, Meaning, Kind } from '../parser/type.js'
-import type { Node, Module, Statement, Type, Symbol, InstantiatedSymbol, Expression, Declaration, TypeNode, TypeParameter, Object, ObjectLiteralType, PropertyAssignment, PropertyDeclaration, ObjectType, Function, SignatureDeclaration, Parameter, Return, Call, Table, Signature, Mapper, TypeVariable } from '../parser/type.js'
-import { error } from '../error.js'
-import { getMeaning } from '../binder/index.js'
+import { SyntaxKind, Meaning, Kind, FlowKind } from '../parser/type.js'
+import type { CompilerOptions, Node, Location, Module, Statement, Type, Symbol, FlowNode, Assignment, Var, InstantiatedSymbol, Expression, Declaration, Identifier, TypeNode, TypeParameter, Object, ObjectLiteralType, TypeAlias, TypeReference, Interface, Class, Method, Import, PropertyAssignment, PropertyDeclaration, ObjectType, Function, ArrowFunction, SignatureDeclaration, Parameter, Return, Break, Continue, Call, New, This, PropertyAccess, ElementAccess, ArrayLiteral, BinaryExpression, PrefixUnaryExpression, Table, Signature, Mapper, TypeVariable, LiteralType, ClassType } from '../parser/type.js'
+import { error, addMessageChain, formatMessage } from '../error.js'
+import { Diagnostics } from '../diagnosticMessages.js'
+import { hasMeaning, getDeclarationName } from '../binder/index.js'
 
 let typeCount = 0
 
@@ -9,10 +10,41 @@ let typeCount = 0
 const stringType: Type = { kind: Kind.Primitive, id: typeCount++ }
 // 数値型
 const numberType: Type = { kind: Kind.Primitive, id: typeCount++ }
+// 真偽値型
+const booleanType: Type = { kind: Kind.Primitive, id: typeCount++ }
+// BigInt型
+const bigintType: Type = { kind: Kind.Primitive, id: typeCount++ }
 // エラー型
 const errorType: Type = { kind: Kind.Primitive, id: typeCount++ }
 // any型
 const anyType: Type = { kind: Kind.Primitive, id: typeCount++ }
+// null型
+const nullType: Type = { kind: Kind.Primitive, id: typeCount++ }
+// undefined型
+const undefinedType: Type = { kind: Kind.Primitive, id: typeCount++ }
+// void型（戻り値のない関数の戻り値の型）
+const voidType: Type = { kind: Kind.Primitive, id: typeCount++ }
+// unknown型（すべての型を代入できる型）
+const unknownType: Type = { kind: Kind.Primitive, id: typeCount++ }
+// never型（どの型にも代入できる、値が存在しない型）
+// 型を1つも持たないユニオン型として表す
+const neverType: Type = { kind: Kind.Union, id: typeCount++, types: [] }
+// 真偽値のリテラル型
+const trueType: LiteralType = { kind: Kind.Literal, id: typeCount++, value: true }
+const falseType: LiteralType = { kind: Kind.Literal, id: typeCount++, value: false }
+// any型の配列型（型注釈のない残余引数の型）
+const anyArrayType: Type = { kind: Kind.Array, id: typeCount++, elementType: anyType }
+// リテラル型（"on", 1 など）を値ごとに1つだけ作成するためのキャッシュ
+// 同じ値のリテラル型を同一のオブジェクトにすることで、型の比較を === で行うことができる
+const literalTypes = new Map<string, LiteralType>([["boolean:true", trueType], ["boolean:false", falseType]])
+// typeof 演算子の結果になる文字列
+const typeofTypeNames = ["string", "number", "bigint", "boolean", "symbol", "undefined", "object", "function"]
+// 実行される処理を持たない文の種類（到達できないコードとして報告しない）
+const nonExecutableStatementKinds = new Set([SyntaxKind.TypeAlias, SyntaxKind.Interface, SyntaxKind.Function])
+// 関数のように本体を持ち、呼び出されるまで本体が評価されない宣言の種類
+const functionLikeKinds = new Set([SyntaxKind.Function, SyntaxKind.ArrowFunction, SyntaxKind.Method, SyntaxKind.Constructor])
+// 配列型の要素として文字列にする場合に、括弧で囲む必要がある型の種類（例: (string | number)[]）
+const compositeKinds = new Set([Kind.Function, Kind.Union, Kind.Intersection])
 
 /**
  * [全体像]
@@ -21,9 +53,20 @@ const anyType: Type = { kind: Kind.Primitive, id: typeCount++ }
  * 3. 各文に含まれる式や型については、checkExpression や checkType を通じて再帰的に型を検査する
  * 4. 関数呼び出しやジェネリクスに対しては、型引数の推論（inferTypeArguments）と具体化（instantiateType）を行い、型の整合性を検証する
  * 5. オブジェクト、関数、戻り値などの構造型も含めて、プログラム内の各要素の型を解析し、不一致があればエラーを報告する
+ * 6. options.strictNullChecks によって、null・undefined を他の型に代入できるかどうかを切り替える（isAssignableTo）
+ * 7. binder が作成した制御フローグラフを使い、到達できない文と、戻り値を返さずに末尾に到達する関数を報告する
+ * 8. 変数を参照した位置から制御フローグラフをさかのぼり、typeof・等価比較・真偽値の条件と代入によって変数の型を絞り込む（getFlowTypeOfReference）
  */
-export function checker(module: Module) {
-  return module.statements.map(checkStatement)
+export function checker(module: Module, options: CompilerOptions = {}) {
+  // 制御フロー解析で、代入した値の型を解析している途中の代入（ループの中で同じ代入を繰り返し解析しないようにする）
+  const resolvingAssignments = new Set<Var | Assignment>()
+  // 代入可能かどうかを比較している途中の型の組（自分自身をプロパティの型に持つ型を比較する場合に、同じ比較を繰り返さないようにする）
+  const assignabilityStack = new Set<string>()
+  // 文字列に変換している途中のオブジェクト型（自分自身をプロパティの型に持つ型を変換する場合に、同じ変換を繰り返さないようにする）
+  const typesBeingPrinted = new Set<Type>()
+  const types = module.statements.map(checkStatement)
+  checkUnreachableCode(module.statements)
+  return types
 
   // コードの文の型チェックを行う
   // プログラムの実行単位（アクションや宣言）を表す要素を引数に受け取り、型のチェックを行う関数
@@ -33,61 +76,809 @@ export function checker(module: Module) {
       case SyntaxKind.ExpressionStatement:
         return checkExpression(statement.expression)
       // 変数宣言の場合
+      // 型注釈がある場合は、その型を初期化の式の文脈上の型として使う
+      // 型注釈がない場合、const 以外で宣言された変数は再代入できるように、リテラル型を元のプリミティブ型に広げる（例: let x = 1 は number）
       case SyntaxKind.Var:
-        const i = checkExpression(statement.initializer)
-        if (!statement.typename) {
-          return i
+        const t = statement.typename && checkType(statement.typename)
+        const i = checkExpression(statement.initializer, t)
+        if (!t) {
+          return statement.keyword === "const" ? getRegularTypeOfObjectLiteral(i) : getWidenedLiteralType(i)
         }
-        const t = checkType(statement.typename)
-        if (!isAssignableTo(i, t))
-          error(statement.initializer, `Cannot assign initialiser of type '${typeToString(i)}' to variable with declared type '${typeToString(t)}'.`)
+        const elaboration: string[] = []
+        if (!isAssignableTo(i, t, elaboration))
+          addMessageChain(error(statement.initializer, Diagnostics.Cannot_assign_initialiser_of_type_0_to_variable_with_declared_type_1, typeToString(i), typeToString(t)), elaboration)
         return t
       // 型エイリアスの場合
       case SyntaxKind.TypeAlias:
-        return checkType(statement.typename)
-      // return文の場合
+        checkTypeParameters(statement.typeParameters)
+        return getTypeTypeOfSymbol(statement.symbol)
+      // インターフェース宣言の場合（同じ名前の宣言はまとめて1つの型になる）
+      case SyntaxKind.Interface:
+        return getTypeTypeOfSymbol(statement.symbol)
+      // クラス宣言の場合
+      case SyntaxKind.Class:
+        return checkClass(statement)
+      // 関数宣言の場合
+      case SyntaxKind.Function:
+        return checkFunction(statement)
+      // import 宣言の場合
+      case SyntaxKind.Import:
+        checkImport(statement)
+        return anyType
+      // return文の場合（戻り値の式を省略した場合は undefined を返す）
       case SyntaxKind.Return:
-        return checkExpression(statement.expression)
+        return statement.expression ? checkReturnExpression(statement.expression) : undefinedType
+      // ブロックの場合
+      case SyntaxKind.Block:
+        statement.statements.forEach(checkStatement)
+        checkUnreachableCode(statement.statements)
+        return anyType
+      // if文の場合
+      case SyntaxKind.If:
+        checkExpression(statement.expression)
+        checkStatement(statement.thenStatement)
+        if (statement.elseStatement) {
+          checkStatement(statement.elseStatement)
+        }
+        return anyType
+      // while文・do-while文の場合
+      case SyntaxKind.While:
+      case SyntaxKind.DoWhile:
+        checkExpression(statement.expression)
+        checkStatement(statement.statement)
+        return anyType
+      // for文の場合
+      case SyntaxKind.For:
+        if (statement.initializer?.kind === SyntaxKind.Var) {
+          checkStatement(statement.initializer)
+        }
+        else if (statement.initializer) {
+          checkExpression(statement.initializer)
+        }
+        if (statement.condition) {
+          checkExpression(statement.condition)
+        }
+        if (statement.incrementor) {
+          checkExpression(statement.incrementor)
+        }
+        checkStatement(statement.statement)
+        return anyType
+      // break文・continue文の場合
+      case SyntaxKind.Break:
+      case SyntaxKind.Continue:
+        checkBreakOrContinue(statement)
+        return anyType
+    }
+  }
+
+  // import した名前が、import 元のモジュールで export されているかをチェックする関数
+  // import 元のモジュールが見つからない場合は、Program がモジュールの解決時にエラーを報告済み
+  function checkImport(statement: Import) {
+    if (!statement.module) return
+    for (const specifier of statement.specifiers) {
+      if (!resolveAlias(specifier.symbol)) {
+        const name = specifier.propertyName ?? specifier.name
+        error(name, Diagnostics.Module_0_has_no_exported_member_1, statement.moduleSpecifier.raw, name.text)
+      }
+    }
+  }
+
+  // 識別子が参照する変数の、参照した位置での型を取得する関数
+  // 参照した位置から制御フローグラフをさかのぼり、通ってきた条件と代入によって宣言された型を絞り込む
+  // 例）let x: string | number の場合、if (typeof x === "string") { x } の x は string型
+  // 代入先の識別子や、変数・引数以外（関数・クラスなど）の場合は、宣言された型をそのまま使う
+  function getFlowTypeOfReference(reference: Identifier, symbol: Symbol, declaredType: Type): Type {
+    const declaration = symbol.valueDeclaration
+    const isAssignmentTarget = reference.parent.kind === SyntaxKind.Assignment && reference.parent.name === reference
+    if (!reference.flowNode || isAssignmentTarget || (declaration?.kind !== SyntaxKind.Var && declaration?.kind !== SyntaxKind.Parameter)) {
+      return declaredType
+    }
+    // 同じノードを何度もさかのぼらないよう、求めた型をキャッシュする
+    // ループの先頭を解析中に求めた型は、ループからの経路を含まない途中の型のため、キャッシュしない
+    const cache = new Map<FlowNode, Type>()
+    const visitingLoops = new Set<FlowNode>()
+    return getTypeAtFlowNode(reference.flowNode)
+
+    function getTypeAtFlowNode(flow: FlowNode): Type {
+      const cached = cache.get(flow)
+      if (cached) {
+        return cached
+      }
+      const type = getTypeAtFlowNodeWorker(flow)
+      if (!visitingLoops.size) {
+        cache.set(flow, type)
+      }
+      return type
+    }
+
+    function getTypeAtFlowNodeWorker(flow: FlowNode): Type {
+      switch (flow.kind) {
+        // 関数・モジュールの開始位置や到達できない位置の場合は、宣言された型とする
+        case FlowKind.Start:
+        case FlowKind.Unreachable:
+          return declaredType
+        // 代入の場合は、同じ変数への代入であれば代入した値の型で絞り込み、それ以外は代入の前の位置をさかのぼる
+        case FlowKind.Assignment:
+          if (flow.node.kind === SyntaxKind.Var ? flow.node.symbol === symbol : isMatchingReference(flow.node.name)) {
+            return getTypeOfAssignment(flow.node)
+          }
+          return getTypeAtFlowNode(flow.antecedent)
+        // 条件式の場合は、条件式が true・false になる場合の型に絞り込む
+        case FlowKind.TrueCondition:
+        case FlowKind.FalseCondition:
+          return narrowType(getTypeAtFlowNode(flow.antecedent), flow.expression, flow.kind === FlowKind.TrueCondition)
+        // 合流する位置の場合は、各経路での型のユニオン型とする
+        case FlowKind.BranchLabel:
+          return getUnionType(flow.antecedents.map(getTypeAtFlowNode))
+        // ループの先頭の場合も各経路での型のユニオン型とするが、ループの中から再び到達した場合は、その経路の型を含めない（never型）
+        case FlowKind.LoopLabel: {
+          if (visitingLoops.has(flow)) {
+            return neverType
+          }
+          visitingLoops.add(flow)
+          const type = getUnionType(flow.antecedents.map(getTypeAtFlowNode))
+          visitingLoops.delete(flow)
+          return type
+        }
+      }
+    }
+
+    // 代入した後の変数の型を取得する関数
+    // 型注釈のない変数宣言は初期化の式の型が宣言された型になるため、そのまま使う
+    // ループの中の代入で、代入する値の解析中に同じ代入に到達した場合は、宣言された型とする
+    function getTypeOfAssignment(node: Var | Assignment): Type {
+      if ((node.kind === SyntaxKind.Var && !node.typename) || resolvingAssignments.has(node)) {
+        return declaredType
+      }
+      resolvingAssignments.add(node)
+      const assignedType = checkExpression(node.kind === SyntaxKind.Var ? node.initializer : node.value, declaredType)
+      resolvingAssignments.delete(node)
+      return getAssignmentReducedType(declaredType, assignedType)
+    }
+
+    // 条件式が true（assumeTrue が false の場合は false）になる場合の変数の型に絞り込む関数
+    function narrowType(type: Type, expression: Expression, assumeTrue: boolean): Type {
+      switch (expression.kind) {
+        // 変数そのものを条件にした場合は、真偽値として評価した結果で絞り込む（例: if (x)）
+        case SyntaxKind.Identifier:
+          return isMatchingReference(expression) ? narrowTypeByTruthiness(type, assumeTrue) : type
+        // "!" の場合は、条件を反転して絞り込む
+        case SyntaxKind.PrefixUnaryExpression:
+          return expression.operator === "!" ? narrowType(type, expression.operand, !assumeTrue) : type
+        case SyntaxKind.BinaryExpression:
+          switch (expression.operator) {
+            // 等価比較の場合（"!==" と "!=" は条件を反転する）
+            case "===":
+            case "!==":
+            case "==":
+            case "!=": {
+              const assumeEqual = (expression.operator === "===" || expression.operator === "==") === assumeTrue
+              const isLoose = expression.operator === "==" || expression.operator === "!="
+              return narrowTypeByComparison(type, expression.left, expression.right, assumeEqual, isLoose)
+                ?? narrowTypeByComparison(type, expression.right, expression.left, assumeEqual, isLoose)
+                ?? type
+            }
+            // "&&" が true の場合は両辺が true、false の場合は左辺が false か、左辺が true で右辺が false
+            case "&&":
+              return assumeTrue
+                ? narrowType(narrowType(type, expression.left, true), expression.right, true)
+                : getUnionType([narrowType(type, expression.left, false), narrowType(narrowType(type, expression.left, true), expression.right, false)])
+            // "||" が true の場合は左辺が true か、左辺が false で右辺が true、false の場合は両辺が false
+            case "||":
+              return assumeTrue
+                ? getUnionType([narrowType(type, expression.left, true), narrowType(narrowType(type, expression.left, false), expression.right, true)])
+                : narrowType(narrowType(type, expression.left, false), expression.right, false)
+          }
+      }
+      return type
+    }
+
+    // 等価比較の左辺（reference）が変数か typeof 変数の場合に、右辺（value）の値で絞り込む関数
+    // 絞り込むことができない比較の場合は undefined を返す
+    // 例）typeof x === "string", x === null, x === "on"
+    function narrowTypeByComparison(type: Type, reference: Expression, value: Expression, assumeEqual: boolean, isLoose: boolean): Type | undefined {
+      if (reference.kind === SyntaxKind.PrefixUnaryExpression && reference.operator === "typeof" && isMatchingReference(reference.operand) && value.kind === SyntaxKind.StringLiteral) {
+        return narrowTypeByTypeof(type, value.value, assumeEqual)
+      }
+      if (isMatchingReference(reference)) {
+        const valueType = checkExpression(value)
+        if (valueType.kind === Kind.Literal || valueType === nullType || valueType === undefinedType) {
+          return narrowTypeByEquality(type, valueType, assumeEqual, isLoose)
+        }
+      }
+      return undefined
+    }
+
+    // 条件式の中の式が、型を求めている変数を参照する識別子かどうかを判別する関数
+    function isMatchingReference(expression: Expression): boolean {
+      return expression.kind === SyntaxKind.Identifier && resolve(expression, expression.text, Meaning.Value) === symbol
+    }
+  }
+
+  // 代入した値の型によって、変数の宣言された型を絞り込む関数
+  // ユニオン型の場合は、代入した値を代入できる型のみを残す（例: string | number の変数に "a" を代入すると string）
+  function getAssignmentReducedType(declaredType: Type, assignedType: Type): Type {
+    const assignedTypes = assignedType.kind === Kind.Union ? assignedType.types : [assignedType]
+    const reduced = filterType(declaredType, t => assignedTypes.some(a => isAssignableTo(a, t)))
+    return reduced === neverType ? declaredType : reduced
+  }
+
+  // typeof による比較で型を絞り込む関数
+  // typeof の結果が比較した文字列と一致する型のみを残す（assumeEqual が false の場合は一致しない型のみを残す）
+  // unknown型は、一致する場合にその文字列が表すプリミティブ型に絞り込む
+  function narrowTypeByTypeof(type: Type, typeName: string, assumeEqual: boolean): Type {
+    if (type === anyType) {
+      return type
+    }
+    if (type === unknownType) {
+      const primitiveTypes: Record<string, Type> = { string: stringType, number: numberType, bigint: bigintType, boolean: booleanType, undefined: undefinedType }
+      return assumeEqual && primitiveTypes[typeName] || type
+    }
+    return filterType(type, t => {
+      const name = getTypeofTypeName(t)
+      return name === undefined || (name === typeName) === assumeEqual
+    })
+  }
+
+  // 型の値に typeof を使った場合の結果の文字列を取得する関数（型から決まらない場合は undefined を返す）
+  function getTypeofTypeName(type: Type): string | undefined {
+    switch (type.kind) {
+      case Kind.Primitive:
+        return type === stringType ? "string"
+          : type === numberType ? "number"
+          : type === bigintType ? "bigint"
+          : type === booleanType ? "boolean"
+          : type === undefinedType || type === voidType ? "undefined"
+          : type === nullType ? "object"
+          : undefined
+      case Kind.Literal:
+        return typeof type.value
+      case Kind.Function:
+      case Kind.Class:
+        return "function"
+      case Kind.Object:
+      case Kind.Array:
+      case Kind.Tuple:
+        return "object"
+      default:
+        return undefined
     }
   }
 
+  // 等価比較で型を絞り込む関数
+  // 一致する場合は比較した値の型とし（例: x === "on" の x は "on"）、一致しない場合は比較した値の型を取り除く
+  // "==" と "!=" では、null と undefined は互いに一致する
+  function narrowTypeByEquality(type: Type, valueType: Type, assumeEqual: boolean, isLoose: boolean): Type {
+    if (type === anyType || type === unknownType) {
+      return type
+    }
+    if (isLoose && (valueType === nullType || valueType === undefinedType)) {
+      return filterType(type, t => (t === nullType || t === undefinedType) === assumeEqual)
+    }
+    if (assumeEqual) {
+      return filterType(type, t => isAssignableTo(valueType, t)) === neverType ? neverType : valueType
+    }
+    return filterType(type, t => t !== valueType)
+  }
+
+  // 真偽値として評価した結果で型を絞り込む関数
+  // true になる場合は必ず false になる型（null, undefined, false, 0, "" など）を取り除き、false になる場合は必ず true になる型を取り除く
+  function narrowTypeByTruthiness(type: Type, assumeTrue: boolean): Type {
+    return filterType(type, t => assumeTrue ? !isFalsyType(t) : !isTruthyType(t))
+  }
+
+  // 値が必ず false として評価される型かどうかを判別する関数
+  function isFalsyType(type: Type): boolean {
+    return type === nullType || type === undefinedType || type === voidType || (type.kind === Kind.Literal && !type.value)
+  }
+
+  // 値が必ず true として評価される型かどうかを判別する関数（オブジェクト・配列・関数・クラスと、true として評価されるリテラル型）
+  function isTruthyType(type: Type): boolean {
+    return type.kind === Kind.Object || type.kind === Kind.Array || type.kind === Kind.Tuple || type.kind === Kind.Function || type.kind === Kind.Class
+      || (type.kind === Kind.Literal && !!type.value)
+  }
+
+  // 条件を満たす型のみを残す関数（ユニオン型の場合は各型に対して判別し、残った型のユニオン型とする）
+  function filterType(type: Type, predicate: (t: Type) => boolean): Type {
+    if (type.kind === Kind.Union) {
+      return getUnionType(type.types.filter(predicate))
+    }
+    return predicate(type) ? type : neverType
+  }
+
+  // 到達できない文（return・break・continue の後ろなど）をエラーとして報告する関数
+  // 到達できない文が続く場合は、まとめて1つのエラーとする（到達できない文の後ろの文にも到達できない）
+  // 文の並びを持つブロック自体に到達できない場合は、外側で報告済みのため報告しない
+  // 型エイリアス・インターフェース・関数宣言は実行される処理を持たないため、対象外とする
+  function checkUnreachableCode(statements: Statement[]) {
+    const executableStatements = statements.filter(s => !nonExecutableStatementKinds.has(s.kind))
+    const first = executableStatements.find(s => s.flowNode?.kind === FlowKind.Unreachable)
+    if (!first || first.parent.flowNode?.kind === FlowKind.Unreachable) {
+      return
+    }
+    // 文の並びの範囲には親として文の親を設定し、エラーのファイル名を親をたどって求められるようにする
+    const range: Location = { start: first.start, end: executableStatements[executableStatements.length - 1].end, parent: first.parent }
+    error(range, Diagnostics.Unreachable_code_detected)
+  }
+
+  // break文・continue文が、繰り返し処理（while, do-while, for）の中で使われているかをチェックする関数
+  // 親のノードを順番にたどり、繰り返し処理より先に関数やモジュールに到達した場合はエラー
+  function checkBreakOrContinue(statement: Break | Continue) {
+    let node: Node = statement.parent
+    while (node && !functionLikeKinds.has(node.kind) && node.kind !== SyntaxKind.Module) {
+      if (node.kind === SyntaxKind.While || node.kind === SyntaxKind.DoWhile || node.kind === SyntaxKind.For) {
+        return
+      }
+      node = node.parent
+    }
+    const keyword = statement.kind === SyntaxKind.Break ? "break" : "continue"
+    error(statement, Diagnostics.A_0_statement_can_only_be_used_within_an_enclosing_iteration_statement, keyword)
+  }
+
   // コードの式の型チェックを行う
   // プログラム内での演算や参照などを行う要素を引数に受け取り、型のチェックを行う関数
-  function checkExpression(expression: Expression): Type {
+  // contextualType: 式が代入される先の型（文脈上の型）。配列リテラルをタプル型として扱うかどうかの判別などに使う
+  function checkExpression(expression: Expression, contextualType?: Type): Type {
     switch (expression.kind) {
       // 識別子の場合
       case SyntaxKind.Identifier:
+        // 構文エラーにより補われた識別子の場合は、パーサーがエラーを報告済みのためエラー型とする
+        if (expression.isMissing) {
+          return errorType
+        }
         const symbol = resolve(expression, expression.text, Meaning.Value)
         if (symbol) {
-          return getValueTypeOfSymbol(symbol)
+          // 宣言より前で使われている場合は、初期化の式を解析すると循環するためエラー型とする（例: let x = x）
+          if (checkBlockScopedVariableUse(expression, symbol)) {
+            return errorType
+          }
+          return getFlowTypeOfReference(expression, symbol, getValueTypeOfSymbol(symbol))
         }
-        error(expression, "Could not resolve " + expression.text)
+        error(expression, Diagnostics.Could_not_resolve_0, expression.text)
         return errorType
-      // 数値の場合
+      // 数値・BigInt・文字列・真偽値の場合は、その値のリテラル型とする
       case SyntaxKind.NumericLiteral:
-        return numberType
-      // 文字列の場合
+      case SyntaxKind.BigIntLiteral:
       case SyntaxKind.StringLiteral:
+      case SyntaxKind.BooleanLiteral:
+        return getLiteralType(expression.value)
+      // null・undefined の場合
+      case SyntaxKind.NullLiteral:
+        return nullType
+      case SyntaxKind.UndefinedLiteral:
+        return undefinedType
+      // テンプレートリテラルの場合は、埋め込まれた式を型チェックした上で文字列型とする
+      case SyntaxKind.TemplateExpression:
+        for (const span of expression.templateSpans) {
+          checkExpression(span.expression)
+        }
         return stringType
       // オブジェクトの場合
       case SyntaxKind.Object:
         return checkObject(expression)
       // 代入の場合
       case SyntaxKind.Assignment:
-        const v = checkExpression(expression.value)
         const t = checkExpression(expression.name)
-        if (!isAssignableTo(v, t))
-          error(expression.name, `Cannot assign value of type '${typeToString(v)}' to variable of type '${typeToString(t)}'.`)
+        const v = checkExpression(expression.value, t)
+        // 代入できない変数への代入の場合は、値の型はチェックしない
+        if (expression.name.kind === SyntaxKind.Identifier && checkConstantAssignment(expression.name)) {
+          return t
+        }
+        const elaboration: string[] = []
+        if (!isAssignableTo(v, t, elaboration))
+          addMessageChain(error(expression.name, Diagnostics.Cannot_assign_value_of_type_0_to_variable_of_type_1, typeToString(v), typeToString(t)), elaboration)
         return t
-      // 関数の場合
+      // 関数・アロー関数の場合
       case SyntaxKind.Function:
+      case SyntaxKind.ArrowFunction:
         return checkFunction(expression)
       // 関数呼び出しの場合
       case SyntaxKind.Call:
         return checkCall(expression)
+      // new 式の場合
+      case SyntaxKind.New:
+        return checkNew(expression)
+      // this の場合
+      case SyntaxKind.This:
+        return checkThis(expression)
+      // プロパティアクセスの場合
+      case SyntaxKind.PropertyAccess:
+        return checkPropertyAccess(expression)
+      // 要素アクセスの場合
+      case SyntaxKind.ElementAccess:
+        return checkElementAccess(expression)
+      // 配列リテラルの場合
+      case SyntaxKind.ArrayLiteral:
+        return checkArrayLiteral(expression, contextualType)
+      // 二項演算子の式の場合
+      case SyntaxKind.BinaryExpression:
+        return checkBinaryExpression(expression)
+      // 前置単項演算子の式の場合
+      case SyntaxKind.PrefixUnaryExpression:
+        return checkPrefixUnaryExpression(expression)
+    }
+  }
+
+  // let・const で宣言された変数とクラスが、宣言より前で使われていないかをチェックする関数（TDZ: Temporal Dead Zone）
+  // 宣言より後ろの位置で使われている場合と、宣言より前でも関数の中で使われている場合（関数の呼び出し時まで評価が遅れる）は問題ない
+  // エラーを報告した場合は true を返す
+  function checkBlockScopedVariableUse(name: Identifier, symbol: Symbol): boolean {
+    const declaration = symbol.valueDeclaration
+    const isBlockScoped = declaration?.kind === SyntaxKind.Class || (declaration?.kind === SyntaxKind.Var && declaration.keyword !== "var")
+    if (!declaration || !isBlockScoped || name.start >= declaration.end) {
+      return false
+    }
+    // 使われている位置から、宣言されたスコープまで親のノードをたどり、途中に関数があるかを確認する
+    const container = declaration.parent
+    let node: Node = name.parent
+    while (node && node !== container) {
+      if (functionLikeKinds.has(node.kind)) {
+        return false
+      }
+      node = node.parent
     }
+    error(name, declaration.kind === SyntaxKind.Class ? Diagnostics.Class_0_used_before_its_declaration : Diagnostics.Block_scoped_variable_0_used_before_its_declaration, name.text)
+    return true
+  }
+
+  // 代入先の変数が const で宣言されていないか、クラス・import した名前ではないかをチェックする関数
+  // エラーを報告した場合は true を返す
+  function checkConstantAssignment(name: Identifier): boolean {
+    const declaration = resolve(name, name.text, Meaning.Value)?.valueDeclaration
+    if (declaration?.kind === SyntaxKind.Var && declaration.keyword === "const") {
+      error(name, Diagnostics.Cannot_assign_to_0_because_it_is_a_constant, name.text)
+      return true
+    }
+    if (declaration?.kind === SyntaxKind.Class) {
+      error(name, Diagnostics.Cannot_assign_to_0_because_it_is_a_class, name.text)
+      return true
+    }
+    if (declaration?.kind === SyntaxKind.ImportSpecifier) {
+      error(name, Diagnostics.Cannot_assign_to_0_because_it_is_an_import, name.text)
+      return true
+    }
+    return false
+  }
+
+  // 二項演算子の式の型チェックを行う関数
+  // 演算子の種類ごとに、左辺と右辺の型の組み合わせが正しいかを確認し、式の結果の型を返す
+  function checkBinaryExpression(expression: BinaryExpression): Type {
+    const leftType = checkExpression(expression.left)
+    const rightType = checkExpression(expression.right)
+    // どちらかがエラー型の場合は、すでにエラーが報告されているためエラー型とする
+    if (leftType === errorType || rightType === errorType) {
+      return errorType
+    }
+    // 算術演算子・大小比較では、リテラル型を元のプリミティブ型として扱う（例: 1 + 2 は number 同士の加算）
+    const left = getWidenedLiteralType(leftType)
+    const right = getWidenedLiteralType(rightType)
+    switch (expression.operator) {
+      // "+" は数値同士の加算か、どちらかが文字列の場合は文字列の連結とする
+      case "+":
+        if (left === stringType || right === stringType) {
+          return stringType
+        }
+        if (left === anyType || right === anyType) {
+          return anyType
+        }
+        return checkArithmeticOperands(expression, left, right)
+      // 算術演算子・ビット演算子は、数値同士かBigInt同士の場合のみ使うことができる
+      case "-":
+      case "*":
+      case "/":
+      case "%":
+      case "**":
+      case "<<":
+      case ">>":
+      case ">>>":
+      case "&":
+      case "|":
+      case "^":
+        return checkArithmeticOperands(expression, left, right)
+      // 大小比較は、数値・文字列・BigIntのいずれかの同じ型同士の場合のみ使うことができる
+      case "<":
+      case ">":
+      case "<=":
+      case ">=":
+        if (left !== anyType && right !== anyType && !(left === right && (left === numberType || left === stringType || left === bigintType))) {
+          reportOperatorError(expression, left, right)
+        }
+        return booleanType
+      // 等価比較は、どちらかの型がもう一方の型に代入可能な場合のみ使うことができる
+      case "==":
+      case "!=":
+      case "===":
+      case "!==":
+        if (!isAssignableTo(leftType, rightType) && !isAssignableTo(rightType, leftType)) {
+          error(expression, Diagnostics.This_comparison_appears_to_be_unintentional_because_the_types_0_and_1_have_no_overlap, typeToString(leftType), typeToString(rightType))
+        }
+        return booleanType
+      // 論理演算子の結果は、左辺か右辺のどちらかの値になる
+      // "&&" は左辺が真の場合に右辺の値になるため右辺の型とし、"||" と "??" は両辺の型のユニオン型とする
+      case "&&":
+        return rightType
+      case "||":
+      case "??":
+        return getUnionType([leftType, rightType])
+    }
+  }
+
+  // 算術演算子・ビット演算子の左辺と右辺の型をチェックし、演算結果の型を返す関数
+  function checkArithmeticOperands(expression: BinaryExpression, left: Type, right: Type): Type {
+    if (left === anyType || right === anyType) {
+      return numberType
+    }
+    if (left === numberType && right === numberType) {
+      return numberType
+    }
+    // BigInt同士の演算は BigInt になる（">>>" は BigInt に使うことができない）
+    if (left === bigintType && right === bigintType && expression.operator !== ">>>") {
+      return bigintType
+    }
+    reportOperatorError(expression, left, right)
+    return errorType
+  }
+
+  // 演算子を使うことができない型の組み合わせであることをエラーとして報告する関数
+  function reportOperatorError(expression: BinaryExpression, left: Type, right: Type) {
+    error(expression, Diagnostics.Operator_0_cannot_be_applied_to_types_1_and_2, expression.operator, typeToString(left), typeToString(right))
+  }
+
+  // 前置単項演算子の式の型チェックを行う関数
+  function checkPrefixUnaryExpression(expression: PrefixUnaryExpression): Type {
+    // 数値・BigIntのリテラルに "-" をつけた式は、負の数のリテラル型とする（例: -1）
+    if (expression.operator === "-" && (expression.operand.kind === SyntaxKind.NumericLiteral || expression.operand.kind === SyntaxKind.BigIntLiteral)) {
+      return getLiteralType(-expression.operand.value)
+    }
+    const operand = getWidenedLiteralType(checkExpression(expression.operand))
+    if (operand === errorType) {
+      return errorType
+    }
+    switch (expression.operator) {
+      // "!" はどの型にも使うことができ、結果は真偽値になる
+      case "!":
+        return booleanType
+      // typeof はどの型にも使うことができ、結果は型の種類を表す文字列になる
+      case "typeof":
+        return getUnionType(typeofTypeNames.map(getLiteralType))
+      // "-" と "~" は数値かBigIntに使うことができる
+      case "-":
+      case "~":
+        if (operand === numberType || operand === bigintType) {
+          return operand
+        }
+        if (operand === anyType) {
+          return numberType
+        }
+        break
+      // "+" は数値への変換を行うため、BigInt以外に使うことができる
+      case "+":
+        if (operand !== bigintType) {
+          return numberType
+        }
+        break
+    }
+    error(expression, Diagnostics.Operator_0_cannot_be_applied_to_type_1, expression.operator, typeToString(operand))
+    return errorType
   }
   
+  // プロパティアクセスの型チェックを行う関数
+  // 例）obj.x
+  function checkPropertyAccess(access: PropertyAccess): Type {
+    const objectType = checkExpression(access.expression)
+    // 構文エラーにより補われたプロパティ名の場合は、パーサーがエラーを報告済みのためエラー型とする
+    if (access.name.isMissing) {
+      return errorType
+    }
+    return getTypeOfProperty(objectType, access.name.text, access.name)
+  }
+
+  // 要素アクセスの型チェックを行う関数
+  // 添字が文字列・数値リテラルの場合は、プロパティアクセスと同じようにプロパティを探す
+  // 例）obj["x"]
+  function checkElementAccess(access: ElementAccess): Type {
+    // 制約を持つ型変数の場合は、制約の型の要素にアクセスする（例: T extends number[] の xs[0] は number）
+    const expressionType = checkExpression(access.expression)
+    const objectType = expressionType.kind === Kind.TypeVariable && expressionType.constraint ? expressionType.constraint : expressionType
+    const indexType = getWidenedLiteralType(checkExpression(access.argumentExpression))
+    const argument = access.argumentExpression
+    // タプル型の場合は、数値リテラルで指定された位置の要素の型を取得する
+    if (objectType.kind === Kind.Tuple && argument.kind === SyntaxKind.NumericLiteral) {
+      const elementType = objectType.elementTypes[argument.value]
+      if (!elementType) {
+        error(argument, Diagnostics.Tuple_type_0_of_length_1_has_no_element_at_index_2, typeToString(objectType), objectType.elementTypes.length, argument.raw)
+        return errorType
+      }
+      return elementType
+    }
+    // 配列型・タプル型を数値で指定した場合は、要素の型を取得する
+    if ((objectType.kind === Kind.Array || objectType.kind === Kind.Tuple) && (indexType === numberType || indexType === anyType)) {
+      return objectType.kind === Kind.Array ? objectType.elementType : getUnionType(objectType.elementTypes)
+    }
+    if (argument.kind === SyntaxKind.StringLiteral || argument.kind === SyntaxKind.NumericLiteral) {
+      return getTypeOfProperty(objectType, String(argument.value), argument)
+    }
+    if (objectType === errorType || indexType === errorType) {
+      return errorType
+    }
+    if (indexType !== stringType && indexType !== numberType && indexType !== anyType) {
+      error(argument, Diagnostics.Type_0_cannot_be_used_as_an_index_type, typeToString(indexType))
+      return errorType
+    }
+    // 添字の値が決まらない場合は、どのプロパティを指すか判別できないため any型とする
+    return anyType
+  }
+
+  // 型のメンバーから、指定された名前のプロパティの型を取得する関数
+  // プロパティが存在しない場合はエラー
+  function getTypeOfProperty(objectType: Type, name: string, location: Node): Type {
+    if (objectType === errorType || objectType === anyType) {
+      return objectType
+    }
+    const type = getTypeOfPropertyOfType(objectType, name)
+    if (type) {
+      return type
+    }
+    error(location, Diagnostics.Property_0_does_not_exist_on_type_1, name, typeToString(objectType))
+    return errorType
+  }
+
+  // 型が持つプロパティの型を取得する関数（プロパティが存在しない場合は undefined を返す）
+  function getTypeOfPropertyOfType(type: Type, name: string): Type | undefined {
+    switch (type.kind) {
+      // 配列型・タプル型は、要素の数を表す length プロパティを持つ
+      case Kind.Array:
+      case Kind.Tuple:
+        return name === "length" ? numberType : undefined
+      // string型・文字列リテラル型も、文字数を表す length プロパティを持つ（例: "abc".length）
+      case Kind.Primitive:
+        return type === stringType && name === "length" ? numberType : undefined
+      case Kind.Literal:
+        return typeof type.value === "string" && name === "length" ? numberType : undefined
+      // オブジェクト型の場合
+      case Kind.Object:
+        const symbol = type.members.get(name)
+        return symbol?.valueDeclaration && getValueTypeOfSymbol(symbol)
+      // 型変数の場合は、制約の型が持つプロパティを使う（例: T extends { length: number } の T は length を持つ）
+      case Kind.TypeVariable:
+        return type.constraint && getTypeOfPropertyOfType(type.constraint, name)
+      // ユニオン型の場合は、すべての型がプロパティを持つ場合のみ、各プロパティの型のユニオン型とする
+      case Kind.Union:
+        const types = type.types.map(t => getTypeOfPropertyOfType(t, name))
+        return types.every(t => t) ? getUnionType(types as Type[]) : undefined
+      // インターセクション型の場合は、プロパティを持ついずれかの型のプロパティの型のインターセクション型とする
+      case Kind.Intersection:
+        const found = type.types.map(t => getTypeOfPropertyOfType(t, name)).filter(t => t) as Type[]
+        return found.length ? getIntersectionType(found) : undefined
+      default:
+        return undefined
+    }
+  }
+
+  // 配列リテラルの型チェックを行う関数
+  // 文脈上の型がタプル型の場合はタプル型とし、それ以外の場合は要素の型から推論した配列型とする
+  // 例）[1, 2, 3] は number[]、let t: [string, number] = ["a", 1] の ["a", 1] は [string, number]
+  function checkArrayLiteral(literal: ArrayLiteral, contextualType?: Type): Type {
+    if (contextualType?.kind === Kind.Tuple) {
+      const elementTypes = literal.elements.map((e, i) => checkExpression(e, contextualType.elementTypes[i]))
+      return { kind: Kind.Tuple, id: typeCount++, elementTypes }
+    }
+    // 要素の型のユニオン型を配列の要素の型とする（要素がない場合は any型とする）
+    // 文脈上の型がない場合は、リテラル型を元のプリミティブ型に広げる（例: [1, "a"] は (number | string)[]）
+    const elementContextualType = contextualType?.kind === Kind.Array ? contextualType.elementType : undefined
+    const elementTypes = literal.elements.map(e => checkExpression(e, elementContextualType))
+    const elementType = !elementTypes.length ? anyType
+      : elementContextualType ? getUnionType(elementTypes, true)
+      : getWidenedLiteralType(getUnionType(elementTypes, true))
+    return { kind: Kind.Array, id: typeCount++, elementType }
+  }
+
+  // 値に対応するリテラル型を取得する関数
+  function getLiteralType(value: string | number | bigint | boolean): LiteralType {
+    const key = `${typeof value}:${value}`
+    let type = literalTypes.get(key)
+    if (!type) {
+      type = { kind: Kind.Literal, id: typeCount++, value }
+      literalTypes.set(key, type)
+    }
+    return type
+  }
+
+  // リテラル型の元になるプリミティブ型を取得する関数（例: "on" は string、true は boolean）
+  function getBaseTypeOfLiteralType(type: LiteralType): Type {
+    switch (typeof type.value) {
+      case "string": return stringType
+      case "number": return numberType
+      case "boolean": return booleanType
+      default: return bigintType
+    }
+  }
+
+  // リテラル型を、元になるプリミティブ型に広げる関数（例: "on" は string、1 | 2 は number）
+  // strictNullChecks が無効の場合は、null・undefined を any型に広げる（例: let x = null は any）
+  // 式のオブジェクトリテラルの型は、通常のオブジェクト型とする（getRegularTypeOfObjectLiteral）
+  function getWidenedLiteralType(type: Type): Type {
+    return type.kind === Kind.Literal ? getBaseTypeOfLiteralType(type)
+      : type.kind === Kind.Union ? getUnionType(type.types.map(getWidenedLiteralType))
+      : (type === nullType || type === undefinedType) && !options.strictNullChecks ? anyType
+      : getRegularTypeOfObjectLiteral(type)
+  }
+
+  // 型の一覧からユニオン型を作成する関数
+  // ネストしたユニオン型の平坦化、重複の削除、元のプリミティブ型と同じユニオン型にあるリテラル型の削除（例: "on" | string は string）を行い、型が1つだけ残る場合はその型を返す
+  // strictNullChecks が無効の場合は、null・undefined を他の型にまとめる（例: string | null は string）
+  // オブジェクト型などは、他の型に代入できる場合も別の型として残す（例: { a: number } | { a: number, b: string }）
+  // reduceSubtypes が true の場合は、他の型に代入できる型をすべて削除する（戻り値の型や配列の要素の型を推論する場合に使う）
+  // true と false の両方を含む場合は、boolean型にまとめる（例: true | false は boolean）
+  // 型が1つも残らない場合は never型とする
+  function getUnionType(types: Type[], reduceSubtypes = false): Type {
+    let flattened = types.flatMap(t => t.kind === Kind.Union ? t.types : [t])
+    if (flattened.includes(trueType) && flattened.includes(falseType)) {
+      flattened = [...flattened.filter(t => t !== trueType && t !== falseType), booleanType]
+    }
+    if (flattened.includes(errorType)) {
+      return errorType
+    }
+    if (flattened.includes(anyType)) {
+      return anyType
+    }
+    if (flattened.includes(unknownType)) {
+      return unknownType
+    }
+    const reduced: Type[] = []
+    for (const type of flattened) {
+      // すでに追加した型に代入できる型は追加しない
+      if (reduced.some(r => reduceSubtypes ? isAssignableTo(type, r) : isLiteralReducibleTo(type, r))) {
+        continue
+      }
+      // 追加する型に代入できる型は取り除く
+      for (let i = reduced.length - 1; i >= 0; i--) {
+        if (reduceSubtypes ? isAssignableTo(reduced[i], type) : isLiteralReducibleTo(reduced[i], type)) {
+          reduced.splice(i, 1)
+        }
+      }
+      reduced.push(type)
+    }
+    return reduced.length === 0 ? neverType
+      : reduced.length === 1 ? reduced[0]
+      : { kind: Kind.Union, id: typeCount++, types: reduced }
+  }
+
+  // ユニオン型を作成する際に、型を他の型にまとめることができるかどうかを判別する関数
+  // 同じ型、元のプリミティブ型と同じユニオン型にあるリテラル型、strictNullChecks が無効の場合の null・undefined のみをまとめる
+  function isLiteralReducibleTo(source: Type, target: Type): boolean {
+    return source === target
+      || (source.kind === Kind.Literal && getBaseTypeOfLiteralType(source) === target)
+      || ((source === nullType || source === undefinedType) && !options.strictNullChecks)
+  }
+
+  // 型の一覧からインターセクション型を作成する関数
+  // ネストしたインターセクション型の平坦化、重複の削除、他の型を代入できる型の削除（例: string & "on" は "on"）を行い、型が1つだけ残る場合はその型を返す
+  function getIntersectionType(types: Type[]): Type {
+    const flattened = types.flatMap(t => t.kind === Kind.Intersection ? t.types : [t])
+    if (flattened.includes(errorType)) {
+      return errorType
+    }
+    if (flattened.includes(anyType)) {
+      return anyType
+    }
+    const reduced: Type[] = []
+    for (const type of flattened) {
+      // すでに追加した型を代入できる型は追加しない
+      if (reduced.some(r => isAssignableTo(r, type))) {
+        continue
+      }
+      // 追加する型を代入できる型は取り除く
+      for (let i = reduced.length - 1; i >= 0; i--) {
+        if (isAssignableTo(type, reduced[i])) {
+          reduced.splice(i, 1)
+        }
+      }
+      reduced.push(type)
+    }
+    return reduced.length === 1 ? reduced[0] : { kind: Kind.Intersection, id: typeCount++, types: reduced }
+  }
+
   // オブジェクトの型チェックを行う関数
   function checkObject(object: Object): ObjectType {
     const members: Table = new Map()
@@ -99,16 +890,38 @@ export function checker(module: Module) {
       members.set(p.name.text, symbol)
       checkProperty(p)
     }
-    return { kind: Kind.Object, id: typeCount++, members }
+    return { kind: Kind.Object, id: typeCount++, members, isFresh: true }
+  }
+
+  // 式のオブジェクトリテラルの型から、余分なプロパティのチェックを行わない通常のオブジェクト型を取得する関数
+  // 変数に代入した後のオブジェクトは、宣言された型にないプロパティを持っていてもよい（例: const o = { x: 1, y: 2 } の o は { x: number } に代入できる）
+  // プロパティの値がオブジェクトリテラルの場合も、そのプロパティの型を通常のオブジェクト型にする（例: const o = { a: { x: 1, y: 2 } } の o.a は { x: number } に代入できる）
+  function getRegularTypeOfObjectLiteral(type: Type): Type {
+    if (type.kind !== Kind.Object || !type.isFresh) {
+      return type
+    }
+    if (type.regularType) {
+      return type.regularType
+    }
+    const members: Table = new Map()
+    for (const [name, symbol] of type.members) {
+      const propertyType = getValueTypeOfSymbol(symbol)
+      const regularPropertyType = getRegularTypeOfObjectLiteral(propertyType)
+      members.set(name, regularPropertyType === propertyType ? symbol : { valueDeclaration: symbol.valueDeclaration, declarations: symbol.declarations, valueType: regularPropertyType })
+    }
+    return type.regularType = { kind: Kind.Object, id: typeCount++, members }
   }
   
   // オブジェクトのプロパティの値（initializer）を型チェックを行う関数
+  // プロパティは再代入できるため、リテラル型を元のプリミティブ型に広げる（例: { a: 1 } は { a: number }）
+  // 値がオブジェクトリテラルの場合は、外側のオブジェクトリテラルと同じく余分なプロパティをチェックできるよう、そのままの型とする
   function checkProperty(property: PropertyAssignment): Type {
-    return checkExpression(property.initializer)
+    const type = checkExpression(property.initializer)
+    return type.kind === Kind.Object ? type : getWidenedLiteralType(type)
   }
   
   // 関数の型チェックを行う関数
-  function checkFunction(func: Function): Type {
+  function checkFunction(func: Function | ArrowFunction): Type {
     return getValueTypeOfSymbol(func.symbol)
   }
 
@@ -116,48 +929,145 @@ export function checker(module: Module) {
   function checkCall(call: Call): Type {
     // 呼び出しを行なった関数自体の型を取得
     const expressionType = checkExpression(call.expression)
+    // 呼び出す式の型が error型の場合は、すでにエラーを報告しているため、引数の型チェックのみを行う
+    if (expressionType === errorType) {
+      call.arguments.forEach(arg => checkExpression(arg))
+      return errorType
+    }
+    // クラスは new を使わずに呼び出すことができない
+    if (expressionType.kind === Kind.Class) {
+      error(call.expression, Diagnostics.Value_of_type_0_is_not_callable_Did_you_mean_to_include_new, typeToString(expressionType))
+      return errorType
+    }
     // 呼び出しを行なった関数の型が関数でない場合はエラー
     if (expressionType.kind !== Kind.Function) {
-      error(call.expression, `Cannot call expression of type '${typeToString(expressionType)}'.`)
+      error(call.expression, Diagnostics.Cannot_call_expression_of_type_0, typeToString(expressionType))
       return errorType
     }
     // 呼び出しを行なった関数の引数の型を取得
-    const argTypes = call.arguments.map(checkExpression)
+    const argTypes = call.arguments.map(arg => checkExpression(arg))
     // ジェネリック関数の場合は、型引数を取得
     let sig = expressionType.signature
     // 以下ジェネリック関数の場合のif文
     if (sig.typeParameters) {
       let typeArguments: Type[]
       const typeParameters = sig.typeParameters.map(getTypeTypeOfSymbol) as TypeVariable[]
+      // 省略できない型引数の数から、型パラメータの数までの範囲で型引数を指定できる
+      const min = getMinTypeArgumentCount(typeParameters)
+      const max = typeParameters.length
       // 関数の引数の型が指定されていない場合は、引数の型を推論
       if (!call.typeArguments) {
         typeArguments = inferTypeArguments(typeParameters, sig, argTypes)
       }
       // 型引数の数が合わない場合はエラー
-      else if (sig.typeParameters.length !== call.typeArguments.length) {
-        error(call.expression, `Expected ${sig.typeParameters.length} type arguments, but got ${call.typeArguments.length}.`)
+      else if (call.typeArguments.length < min || call.typeArguments.length > max) {
+        error(call.expression, Diagnostics.Expected_0_type_arguments_but_got_1, min === max ? min : `${min}-${max}`, call.typeArguments.length)
         typeArguments = sig.typeParameters.map(_ => anyType)
       }
-      // 型の定義があれば、その型の解析を行う
+      // 型の定義があれば、その型の解析を行う（省略された型引数はデフォルトの型で補う）
       else {
-        typeArguments = call.typeArguments.map(checkType)
+        typeArguments = fillMissingTypeArguments(call.typeArguments.map(checkType), typeParameters)
       }
+      // 型引数が型パラメータの制約を満たしているかチェック
+      checkTypeArgumentConstraints(typeParameters, typeArguments, typeParameters.map((_, i) => call.typeArguments?.[i] ?? call.expression))
       // ジェネリック型を具体的な型に置き換える
       sig = instantiateSignature(sig, { sources: typeParameters, targets: typeArguments })
     }
-    // 関数の期待する引数と、渡された引数の数を比較し、一致しなければエラー
-    if (sig.parameters.length !== call.arguments.length) {
-      error(call.expression, `Expected ${sig.parameters.length} arguments, but got ${call.arguments.length}.`)
+    checkArguments(call, sig, argTypes)
+    // 関数の返り値の型
+    return sig.returnType
+  }
+
+  // 関数呼び出し・new 式の引数の数と型が、シグネチャの引数と一致するかをチェックする関数
+  function checkArguments(call: Call | New, sig: Signature, argTypes: Type[]) {
+    // 渡された引数の数が、省略できない引数の数から引数の総数（残余引数がある場合は上限なし）までの範囲にない場合はエラー
+    const min = getMinArgumentCount(sig)
+    const max = hasRestParameter(sig) ? Infinity : sig.parameters.length
+    const count = call.arguments.length
+    if (count < min || count > max) {
+      const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min}-${max}`
+      error(call.expression, Diagnostics.Expected_0_arguments_but_got_1, expected, count)
     }
     // 各引数の型が、関数呼び出しの引数の型と一致するかチェック
-    for (let i = 0; i < Math.min(argTypes.length, sig.parameters.length); i++) {
-      const parameterType = getValueTypeOfSymbol(sig.parameters[i])
-      if (!isAssignableTo(argTypes[i], parameterType)) {
-        error(call.arguments[i], `Expected argument of type '${typeToString(parameterType)}', but got '${typeToString(argTypes[i])}'.`)
+    for (let i = 0; i < argTypes.length; i++) {
+      const parameterType = getTypeOfParameterAt(sig, i)
+      const elaboration: string[] = []
+      if (parameterType && !isAssignableTo(argTypes[i], parameterType, elaboration)) {
+        addMessageChain(error(call.arguments[i], Diagnostics.Expected_argument_of_type_0_but_got_1, typeToString(parameterType), typeToString(argTypes[i])), elaboration)
       }
     }
-    // 関数の返り値の型
-    return sig.returnType
+  }
+
+  // 引数が省略できるかどうかを判別する関数（"?" がついている引数・デフォルト値を持つ引数・残余引数は省略できる）
+  function isOptionalParameter(parameter: Symbol): boolean {
+    const declaration = parameter.valueDeclaration as Parameter
+    return !!(declaration.isOptional || declaration.initializer || declaration.isRest)
+  }
+
+  // シグネチャの最後の引数が、残余引数かどうかを判別する関数
+  function hasRestParameter(signature: Signature): boolean {
+    const last = signature.parameters[signature.parameters.length - 1]
+    return !!(last && (last.valueDeclaration as Parameter).isRest)
+  }
+
+  // シグネチャを呼び出す際に、最低限必要な引数の数を取得する関数
+  // 後ろに省略できない引数が続く場合は、デフォルト値を持つ引数も省略できない（例: (a = 1, b) は2つ必要）
+  function getMinArgumentCount(signature: Signature): number {
+    let count = signature.parameters.length
+    while (count > 0 && isOptionalParameter(signature.parameters[count - 1])) {
+      count--
+    }
+    return count
+  }
+
+  // シグネチャの index 番目の引数として渡す値の型を取得する関数
+  // 残余引数の位置以降は、残余引数の配列の要素の型とし、対応する引数がない場合は undefined を返す
+  // strictNullChecks が有効の場合、デフォルト値を持つ引数には undefined を渡すことができる（例: (a = 1) => a は a に undefined を渡せる）
+  // 関数の本体の中では、デフォルト値が使われるため undefined を含まない型のまま（checkParameter）
+  function getTypeOfParameterAt(signature: Signature, index: number): Type | undefined {
+    const last = signature.parameters.length - 1
+    if (hasRestParameter(signature) && index >= last) {
+      const restType = getValueTypeOfSymbol(signature.parameters[last])
+      return restType.kind === Kind.Array ? restType.elementType : anyType
+    }
+    if (index > last) {
+      return undefined
+    }
+    const parameter = signature.parameters[index]
+    const type = getValueTypeOfSymbol(parameter)
+    return options.strictNullChecks && (parameter.valueDeclaration as Parameter).initializer ? getUnionType([type, undefinedType]) : type
+  }
+
+  // new 式の型チェックを行う関数
+  // クラスのコンストラクタの引数をチェックし、クラスのインスタンスの型を返す
+  // 例）new Point(1, 2)
+  function checkNew(expression: New): Type {
+    const expressionType = checkExpression(expression.expression)
+    const argTypes = expression.arguments.map(arg => checkExpression(arg))
+    if (expressionType === errorType || expressionType === anyType) {
+      return expressionType
+    }
+    if (expressionType.kind !== Kind.Class) {
+      error(expression.expression, Diagnostics.Cannot_use_new_with_an_expression_of_type_0, typeToString(expressionType))
+      return errorType
+    }
+    checkArguments(expression, expressionType.signature, argTypes)
+    return expressionType.signature.returnType
+  }
+
+  // this の型チェックを行う関数
+  // クラスのフィールド・メソッド・コンストラクタの中では、そのクラスのインスタンスの型とする
+  // アロー関数は外側の this をそのまま使うため、関数（function）に到達するまで親のノードをたどる
+  function checkThis(expression: This): Type {
+    let node: Node = expression.parent
+    while (node && node.kind !== SyntaxKind.Function) {
+      if (node.kind === SyntaxKind.Class) {
+        return getTypeTypeOfSymbol(node.symbol)
+      }
+      node = node.parent
+    }
+    // クラスの外側の this は、型を決めることができないため any型とする
+    return anyType
   }
 
   // ジェネリック関数の型を具体的な型（（例）T -> number)に置き換えるラッパー関数
@@ -173,6 +1083,11 @@ export function checker(module: Module) {
 
   // ジェネリック関数の型を具体的な型（（例）T -> number)に置き換える関数
   function instantiateType(type: Type, mapper: Mapper): Type {
+    // ジェネリック型エイリアスを具体化した型の場合は、型引数を具体化した上で型エイリアスを具体化し直す
+    // 例）Box<T> を T = number で具体化すると Box<number>（再帰的な型エイリアスでも、キャッシュにより同じ型になる）
+    if (type.aliasSymbol) {
+      return getTypeAliasInstantiation(type.aliasSymbol, type.aliasTypeArguments!.map(t => instantiateType(t, mapper)))
+    }
     switch (type.kind) {
       // プリミティブ型（string, number...）の場合
       case Kind.Primitive:
@@ -187,6 +1102,21 @@ export function checker(module: Module) {
           members.set(m, instantiateSymbol(s, mapper))
         }
         return { kind: Kind.Object, id: typeCount++, members }
+      // 配列型の場合
+      case Kind.Array:
+        return { kind: Kind.Array, id: typeCount++, elementType: instantiateType(type.elementType, mapper) }
+      // タプル型の場合
+      case Kind.Tuple:
+        return { kind: Kind.Tuple, id: typeCount++, elementTypes: type.elementTypes.map(t => instantiateType(t, mapper)) }
+      // リテラル型・クラス型の場合
+      case Kind.Literal:
+      case Kind.Class:
+        return type
+      // ユニオン型・インターセクション型の場合は、各型を具体化した上で作成し直す
+      case Kind.Union:
+        return getUnionType(type.types.map(t => instantiateType(t, mapper)))
+      case Kind.Intersection:
+        return getIntersectionType(type.types.map(t => instantiateType(t, mapper)))
       // 型変数の場合
       case Kind.TypeVariable:
         for (let i = 0; i < mapper.sources.length; i++) {
@@ -219,19 +1149,26 @@ export function checker(module: Module) {
     for (const typeParameter of typeParameters) {
       inferences.set(typeParameter, [])
     }
-    let i = 0
-    for (const parameter of signature.parameters) {
+    for (let i = 0; i < argTypes.length; i++) {
       // 関数の引数と宣言されたパラメータを比較し、型推論を実行
-      inferType(argTypes[i], getValueTypeOfSymbol(parameter))
-      i++
+      const parameterType = getTypeOfParameterAt(signature, i)
+      if (parameterType) {
+        inferType(argTypes[i], parameterType)
+      }
     }
     // 最初に推論された型を各型パラメータに適用して返す
-    return typeParameters.map(p => inferences.get(p)![0])
+    // 推論できなかった場合（省略可能な引数が渡されなかった場合など）は、デフォルトの型・制約の型・any型の順に使う
+    return fillMissingTypeArguments(typeParameters.map(p => inferences.get(p)![0]), typeParameters)
 
     // 引数で受け取った型の情報を元に、型推論を行う関数
     // 第二引数の型が、第一引数の型に代入可能かどうかを判別する
     // 第一引数の型が、第二引数の型に代入可能な場合は、第一引数の型を第二引数の型に推論する
     function inferType(source: Type, target: Type): void {
+      // 同じジェネリック型エイリアスを具体化した型どうしの場合は、型引数から推論する（例: Box<number> から Box<T> の T を推論）
+      if (source.aliasSymbol && source.aliasSymbol === target.aliasSymbol) {
+        source.aliasTypeArguments!.forEach((t, i) => inferType(t, target.aliasTypeArguments![i]))
+        return
+      }
       switch (target.kind) {
         // プリミティブ型（string, number...）の場合
         case Kind.Primitive:
@@ -251,9 +1188,34 @@ export function checker(module: Module) {
         // オブジェクト型の場合
         case Kind.Object:
           return
+        // 配列型の場合は、要素の型から推論する
+        case Kind.Array:
+          if (source.kind === Kind.Array) {
+            inferType(source.elementType, target.elementType)
+          }
+          else if (source.kind === Kind.Tuple) {
+            source.elementTypes.forEach(t => inferType(t, target.elementType))
+          }
+          return
+        // タプル型の場合は、同じ位置の要素の型から推論する
+        case Kind.Tuple:
+          if (source.kind === Kind.Tuple) {
+            source.elementTypes.forEach((t, i) => i < target.elementTypes.length && inferType(t, target.elementTypes[i]))
+          }
+          return
+        // リテラル型の場合
+        case Kind.Literal:
+          return
+        // ユニオン型・インターセクション型の場合は、各型に対して推論する
+        case Kind.Union:
+        case Kind.Intersection:
+          target.types.forEach(t => inferType(source, t))
+          return
         // 型変数の場合
+        // 式のオブジェクトリテラルの型は、余分なプロパティのチェックを行わない通常のオブジェクト型にしてから推論する
+        // 例）g({ a: 1, b: 2 }) の T は { a: number, b: number } となり、{ a: number } に代入できる
         case Kind.TypeVariable:
-          inferences.get(target)!.push(source)
+          inferences.get(target)!.push(getRegularTypeOfObjectLiteral(source))
           return
       }
     }
@@ -267,32 +1229,208 @@ export function checker(module: Module) {
   }
   
   // 関数の引数の型チェックを行う関数
+  // 型注釈のない引数は、デフォルト値の型をリテラル型から広げた型とし、残余引数は any型の配列型とする
   function checkParameter(parameter: Parameter): Type {
-    return parameter.typename ? checkType(parameter.typename) : anyType
+    const declaredType = parameter.typename && checkType(parameter.typename)
+    if (parameter.isRest && declaredType && declaredType.kind !== Kind.Array && declaredType !== anyType && declaredType !== errorType) {
+      error(parameter.typename!, Diagnostics.A_rest_parameter_must_be_of_an_array_type)
+    }
+    if (parameter.initializer) {
+      const i = checkExpression(parameter.initializer, declaredType)
+      if (!declaredType) {
+        return getWidenedLiteralType(i)
+      }
+      const elaboration: string[] = []
+      if (!isAssignableTo(i, declaredType, elaboration))
+        addMessageChain(error(parameter.initializer, Diagnostics.Cannot_assign_initialiser_of_type_0_to_parameter_with_declared_type_1, typeToString(i), typeToString(declaredType)), elaboration)
+    }
+    // strictNullChecks が有効の場合、省略可能な引数は省略された際の undefined を含む型とする（例: x?: number は number | undefined）
+    if (declaredType && parameter.isOptional && options.strictNullChecks) {
+      return getUnionType([declaredType, undefinedType])
+    }
+    return declaredType || (parameter.isRest ? anyArrayType : anyType)
+  }
+
+  // 引数の一覧の型チェックを行う関数
+  // 残余引数・省略可能な引数・デフォルト値の組み合わせと順番が正しいかをチェックする
+  function checkParameters(parameters: Parameter[]) {
+    let hasOptional = false
+    parameters.forEach((parameter, i) => {
+      if (parameter.isRest) {
+        if (i !== parameters.length - 1)
+          error(parameter, Diagnostics.A_rest_parameter_must_be_last_in_a_parameter_list)
+        if (parameter.isOptional)
+          error(parameter, Diagnostics.A_rest_parameter_cannot_be_optional)
+        if (parameter.initializer)
+          error(parameter, Diagnostics.A_rest_parameter_cannot_have_an_initializer)
+      }
+      else if (parameter.isOptional && parameter.initializer) {
+        error(parameter, Diagnostics.Parameter_cannot_have_question_mark_and_initializer)
+      }
+      else if (parameter.isOptional) {
+        hasOptional = true
+      }
+      // "?" のついた引数の後ろには、省略できない引数を書くことができない（デフォルト値を持つ引数は書くことができる）
+      else if (hasOptional && !parameter.initializer) {
+        error(parameter, Diagnostics.A_required_parameter_cannot_follow_an_optional_parameter)
+      }
+      checkParameter(parameter)
+    })
+  }
+
+  // 型パラメータの一覧の型チェックを行う関数
+  // デフォルトの型を持つ型パラメータの後ろに、デフォルトの型を持たない型パラメータを書くことはできない
+  function checkTypeParameters(typeParameters: TypeParameter[] | undefined) {
+    let hasDefault = false
+    for (const typeParameter of typeParameters ?? []) {
+      if (typeParameter.default) {
+        hasDefault = true
+      }
+      else if (hasDefault) {
+        error(typeParameter, Diagnostics.Required_type_parameters_may_not_follow_optional_type_parameters)
+      }
+      checkTypeParameter(typeParameter)
+    }
   }
 
   // 関数の引数（ジェネリクス）の型チェックを行う関数
+  // デフォルトの型は、制約を満たしている必要がある（例: <T extends string = number> はエラー）
   function checkTypeParameter(typeParameter: TypeParameter): Type {
-    return getTypeTypeOfSymbol(typeParameter.symbol)
+    const type = getTypeTypeOfSymbol(typeParameter.symbol) as TypeVariable
+    if (type.default && type.constraint && !isAssignableTo(type.default, type.constraint)) {
+      error(typeParameter.default!, Diagnostics.Type_0_does_not_satisfy_the_constraint_1, typeToString(type.default), typeToString(type.constraint))
+    }
+    return type
+  }
+
+  // 省略できない型引数の数を取得する関数（デフォルトの型を持たない最後の型パラメータまでの数）
+  function getMinTypeArgumentCount(typeParameters: TypeVariable[]): number {
+    let min = typeParameters.length
+    while (min > 0 && typeParameters[min - 1].default) {
+      min--
+    }
+    return min
+  }
+
+  // 省略された型引数を、デフォルトの型（ない場合は制約の型、どちらもない場合は any型）で補う関数
+  // デフォルトの型は前の型パラメータを参照できるため、それまでの型引数で具体化する（例: <T, U = T[]>）
+  function fillMissingTypeArguments(typeArguments: (Type | undefined)[], typeParameters: TypeVariable[]): Type[] {
+    const result: Type[] = []
+    typeParameters.forEach((typeParameter, i) => {
+      const fallback = typeParameter.default ?? typeParameter.constraint ?? anyType
+      result.push(typeArguments[i] ?? instantiateType(fallback, { sources: typeParameters.slice(0, i), targets: result.slice() }))
+    })
+    return result
+  }
+
+  // 型引数が、対応する型パラメータの制約を満たしているかをチェックする関数
+  // 制約は他の型パラメータを参照できるため、型引数で具体化してから比較する（例: <T, U extends T>）
+  // 制約には余分なプロパティがあってもよいため、余分なプロパティのチェックは行わない（例: <T extends { a: number }> の T に { a: 1, b: 2 }）
+  function checkTypeArgumentConstraints(typeParameters: TypeVariable[], typeArguments: Type[], locations: Node[]) {
+    const mapper = { sources: typeParameters, targets: typeArguments }
+    typeParameters.forEach((typeParameter, i) => {
+      if (!typeParameter.constraint) return
+      const constraint = instantiateType(typeParameter.constraint, mapper)
+      if (!isAssignableTo(getRegularTypeOfObjectLiteral(typeArguments[i]), constraint)) {
+        error(locations[i], Diagnostics.Type_0_does_not_satisfy_the_constraint_1, typeToString(typeArguments[i]), typeToString(constraint))
+      }
+    })
   }
 
   // 関数本体（ブロック）内の解析を行い、その関数の戻り値の型を返す関数
-  function checkBody(body: Statement[], declaredType?: Type): Type {
+  function checkBody(body: Statement[], declaredType?: Type, isEndReachable = false): Type {
     // 関数本体の文を順番に処理
     for (const statement of body) {
       checkStatement(statement)
     }
+    checkUnreachableCode(body)
     // 全てのreturn文を取得し、戻り値の型を取得
     const types: Type[] = []
+    const returnStatements: Statement[] = []
+    let hasEmptyReturn = false
     forEachReturnStatement(body, returnStatement => {
       const returnType = checkStatement(returnStatement)
+      const elaboration: string[] = []
       if (declaredType && returnType !== declaredType) {
-        if (!isAssignableTo(returnType, declaredType))
-          error(returnStatement, `Returned type '${typeToString(returnType)}' does not match declared return type '${typeToString(declaredType)}'.`)
+        if (!isAssignableTo(returnType, declaredType, elaboration))
+          addMessageChain(error(returnStatement, Diagnostics.Returned_type_0_does_not_match_declared_return_type_1, typeToString(returnType), typeToString(declaredType)), elaboration)
+      }
+      if (returnStatement.expression) {
+        types.push(returnType)
+        returnStatements.push(returnStatement)
+      }
+      else {
+        hasEmptyReturn = true
       }
-      types.push(returnType)
     })
-    return types[0]
+    // return文がない場合や、戻り値の式を省略した return文しかない場合は void型とする
+    if (!types.length) {
+      return voidType
+    }
+    // 戻り値の型を推論する場合、他のすべての return文の型を代入できる型（最も一般的な型）がない場合はエラー
+    // 例）return 1 と return "a" がある場合はエラー、return 1 と return 2 がある場合は number型を代入できるため正常
+    if (!declaredType) {
+      checkBestCommonReturnType(types, returnStatements)
+    }
+    // 戻り値の式を省略した return文がある場合や、本体の末尾に到達できる場合は、undefined を返すことがある
+    if (hasEmptyReturn || isEndReachable) {
+      types.push(undefinedType)
+    }
+    // すべての return文の型のユニオン型を戻り値の型とする（他の型をすべて代入できる型がある場合は、その型になる）
+    // 最も一般的な型がないエラーの場合も、呼び出し側で余計なエラーを報告しないようユニオン型とする
+    // 例）return null と return "a" がある場合は string（strictNullChecks が無効の場合）、return 1 と return "a" がある場合はエラーで number | string
+    return getUnionType(types, true)
+  }
+
+  // return文の型の中に、他のすべての return文の型を代入できる型があるかをチェックする関数
+  // リテラル型は元のプリミティブ型に広げ、オブジェクトリテラルは余分なプロパティのチェックをしないよう通常の型にしてから比較する
+  // null・undefined はユニオン型に含めれば良いため、比較の対象から除く（例: return null と return "a" は string | null）
+  function checkBestCommonReturnType(types: Type[], returnStatements: Statement[]) {
+    const candidates = types
+      .map((t, i) => ({ type: getRegularTypeOfObjectLiteral(getWidenedLiteralType(t)), returnStatement: returnStatements[i] }))
+      .filter(({ type }) => type !== nullType && type !== undefinedType)
+    if (!candidates.length || candidates.some(candidate => candidates.every(({ type }) => isAssignableTo(type, candidate.type)))) {
+      return
+    }
+    // 最初の return文の型を代入できない return文の位置にエラーを報告する
+    const location = candidates.find(({ type }) => !isAssignableTo(type, candidates[0].type))!.returnStatement
+    error(location, Diagnostics.No_best_common_type_exists_among_return_expressions)
+  }
+
+  // return文の式の型チェックを行う関数
+  // 戻り値の型を宣言した関数の場合は、宣言された型を文脈上の型として式を解析する（例: 戻り値の型が [string, number] の場合の return ["a", 1]）
+  // 戻り値の型を推論している関数宣言・メソッドの場合は、式の解析中であることを記録し、
+  // 式の中で関数自身が参照された場合に、戻り値の型の循環として検出できるようにする（getValueTypeOfSymbol）
+  function checkReturnExpression(expression: Expression): Type {
+    let node: Node | undefined = expression.parent
+    while (node && !functionLikeKinds.has(node.kind)) {
+      node = node.parent
+    }
+    if ((node?.kind === SyntaxKind.Function || node?.kind === SyntaxKind.ArrowFunction || node?.kind === SyntaxKind.Method) && node.typename) {
+      return checkExpression(expression, checkType(node.typename))
+    }
+    if (!node || (node.kind !== SyntaxKind.Function && node.kind !== SyntaxKind.Method)) {
+      return checkExpression(expression)
+    }
+    const symbol = node.symbol
+    const previous = symbol.returnTypeResolution
+    symbol.returnTypeResolution ??= "resolving"
+    const type = checkExpression(expression)
+    if (symbol.returnTypeResolution === "resolving") {
+      symbol.returnTypeResolution = previous
+    }
+    return type
+  }
+
+  // アロー関数の本体の式の型チェックを行い、その式の型を戻り値の型として返す関数
+  // 戻り値の型を宣言している場合は、宣言された型を文脈上の型として式を解析する
+  function checkExpressionBody(body: Expression, declaredType?: Type): Type {
+    const returnType = checkExpression(body, declaredType)
+    const elaboration: string[] = []
+    if (declaredType && !isAssignableTo(returnType, declaredType, elaboration)) {
+      addMessageChain(error(body, Diagnostics.Returned_type_0_does_not_match_declared_return_type_1, typeToString(returnType), typeToString(declaredType)), elaboration)
+    }
+    return returnType
   }
 
   // 関数内にあるreturn文を全て取得する関数
@@ -306,9 +1444,30 @@ export function checker(module: Module) {
         case SyntaxKind.ExpressionStatement:
         case SyntaxKind.Var:
         case SyntaxKind.TypeAlias:
+        case SyntaxKind.Interface:
+        case SyntaxKind.Class:
+        case SyntaxKind.Function:
+        case SyntaxKind.Import:
           return
         case SyntaxKind.Return:
           return callback(node)
+        case SyntaxKind.Break:
+        case SyntaxKind.Continue:
+          return
+        // ブロックや制御構文の中にある文も、再帰的にたどる
+        case SyntaxKind.Block:
+          node.statements.forEach(traverse)
+          return
+        case SyntaxKind.If:
+          traverse(node.thenStatement)
+          if (node.elseStatement) {
+            traverse(node.elseStatement)
+          }
+          return
+        case SyntaxKind.While:
+        case SyntaxKind.DoWhile:
+        case SyntaxKind.For:
+          return traverse(node.statement)
         default:
           const unused: never = node
           console.log(`${unused} should *never* have been used`)
@@ -325,30 +1484,128 @@ export function checker(module: Module) {
     switch (type.kind) {
       // 識別子の場合
       case SyntaxKind.Identifier:
+        if (type.isMissing) {
+          return errorType
+        }
         switch (type.text) {
           case "string":
             return stringType
           case "number":
             return numberType
+          case "bigint":
+            return bigintType
+          case "boolean":
+            return booleanType
+          case "void":
+            return voidType
+          case "unknown":
+            return unknownType
+          case "never":
+            return neverType
+          case "any":
+            return anyType
           default:
-            const symbol = resolve(type, type.text, Meaning.Type)
-            if (symbol) {
-              return getTypeTypeOfSymbol(symbol)
-            }
-            error(type, "Could not resolve type " + type.text)
-            return errorType
+            return getTypeFromTypeReference(type)
         }
+      // 型引数を指定した型の参照の場合
+      case SyntaxKind.TypeReference:
+        return getTypeFromTypeReference(type)
       // オブジェクトの場合
       case SyntaxKind.ObjectLiteralType:
         return checkObjectLiteralType(type)
+      // 配列の場合
+      case SyntaxKind.ArrayType:
+        return { kind: Kind.Array, id: typeCount++, elementType: checkType(type.elementType) }
+      // タプルの場合
+      case SyntaxKind.TupleType:
+        return { kind: Kind.Tuple, id: typeCount++, elementTypes: type.elementTypes.map(checkType) }
+      // リテラル型・null型・undefined型の場合は、リテラルの式と同じ型とする
+      // 負の数は "-" の前置単項演算子の式として保持されており、式と同じく負の数のリテラル型になる
+      case SyntaxKind.LiteralType:
+        return checkExpression(type.literal)
+      // ユニオン型の場合
+      case SyntaxKind.UnionType:
+        return getUnionType(type.types.map(checkType))
+      // インターセクション型の場合
+      case SyntaxKind.IntersectionType:
+        return getIntersectionType(type.types.map(checkType))
       // 関数の場合
       case SyntaxKind.Signature:
         return getTypeTypeOfSymbol(type.symbol)
     }
   }
 
+  // 型の参照（型名、または型引数を指定した型名）から、その型を取得する関数
+  // ジェネリック型エイリアスの場合は、型引数の数をチェックした上で、型引数で具体化した型を返す
+  // 例）type Box<T> = { value: T } の Box<number> は { value: number }
+  function getTypeFromTypeReference(type: Identifier | TypeReference): Type {
+    const name = type.kind === SyntaxKind.Identifier ? type : type.typeName
+    const typeArguments = type.kind === SyntaxKind.TypeReference ? type.typeArguments : []
+    const symbol = resolve(name, name.text, Meaning.Type)
+    if (!symbol) {
+      error(name, Diagnostics.Could_not_resolve_type_0, name.text)
+      typeArguments.forEach(checkType)
+      return errorType
+    }
+    // import した名前の場合は、import 元で宣言された型エイリアスの型パラメータを使う
+    const target = resolveAlias(symbol)
+    const declaration = target?.declarations.find((d): d is TypeAlias => d.kind === SyntaxKind.TypeAlias)
+    const typeParameters = declaration?.typeParameters
+    if (!typeParameters) {
+      if (typeArguments.length) {
+        error(type, Diagnostics.Type_0_is_not_generic, name.text)
+        typeArguments.forEach(checkType)
+      }
+      return getTypeTypeOfSymbol(symbol)
+    }
+    // 省略できない型引数の数から、型パラメータの数までの範囲で型引数を指定できる（省略された型引数はデフォルトの型で補う）
+    const typeVariables = typeParameters.map(p => getTypeTypeOfSymbol(p.symbol)) as TypeVariable[]
+    const min = getMinTypeArgumentCount(typeVariables)
+    const max = typeParameters.length
+    if (typeArguments.length < min || typeArguments.length > max) {
+      const genericName = `${name.text}<${typeParameters.map(p => p.name.text).join(", ")}>`
+      if (min === max) {
+        error(type, Diagnostics.Generic_type_0_requires_1_type_argument_s, genericName, max)
+      }
+      else {
+        error(type, Diagnostics.Generic_type_0_requires_between_1_and_2_type_arguments, genericName, min, max)
+      }
+      typeArguments.forEach(checkType)
+      return errorType
+    }
+    const types = fillMissingTypeArguments(typeArguments.map(checkType), typeVariables)
+    checkTypeArgumentConstraints(typeVariables, types, typeParameters.map((_, i) => typeArguments[i] ?? type))
+    return getTypeAliasInstantiation(target!, types)
+  }
+
+  // ジェネリック型エイリアスを、型引数で具体化した型を取得する関数
+  // 同じ型引数で具体化した型はシンボルにキャッシュし、同じ型として扱う（例: Box<number> を2回参照しても同じ型）
+  // 具体化で新しく作成した型には型エイリアスと型引数を記録し、型を文字列にする際や、さらに具体化する際に使う
+  function getTypeAliasInstantiation(symbol: Symbol, typeArguments: Type[]): Type {
+    const key = typeArguments.map(t => t.id).join(",")
+    symbol.instantiations ??= new Map()
+    let type = symbol.instantiations.get(key)
+    if (!type) {
+      const declaration = symbol.declarations[0] as TypeAlias
+      const mapper = { sources: declaration.typeParameters!.map(p => getTypeTypeOfSymbol(p.symbol)) as TypeVariable[], targets: typeArguments }
+      const firstId = typeCount
+      type = instantiateType(getTypeTypeOfSymbol(symbol), mapper)
+      // 型引数の型がそのまま返された場合（例: type Id<T> = T の Id<number>）は、既存の型のため記録しない
+      if (type.id >= firstId) {
+        type.aliasSymbol = symbol
+        type.aliasTypeArguments = typeArguments
+      }
+      symbol.instantiations.set(key, type)
+    }
+    return type
+  }
+
   // オブジェクトリテラルの型チェックを行う関数
+  // 同じ型定義からは同じ型を返すよう、作成した型はシンボルにキャッシュする
   function checkObjectLiteralType(object: ObjectLiteralType): ObjectType {
+    if (object.symbol.typeType) {
+      return object.symbol.typeType as ObjectType
+    }
     const members: Table = new Map()
     // オブジェクトリテラルのプロパティを順番に処理
     for (const p of object.properties) {
@@ -357,19 +1614,65 @@ export function checker(module: Module) {
         throw new Error(`Binder did not correctly bind property ${p.name.text} of object literal type with keys ${Object.keys(object.symbol.members)}`)
       }
       members.set(p.name.text, symbol)
-      checkPropertyDeclaration(p)
     }
-    return object.symbol.typeType = { kind: Kind.Object, id: typeCount++, members }
+    // 自分自身を参照するプロパティ（例: type List<T> = { next: List<T> } の next）に対応するため、先に型を登録してからプロパティの型をチェックする
+    const type: ObjectType = object.symbol.typeType = { kind: Kind.Object, id: typeCount++, members }
+    object.properties.forEach(checkPropertyDeclaration)
+    return type
   }
 
-  // オブジェクトのプロパティの型チェックを行う関数
+  // オブジェクトのプロパティ・クラスのフィールドの型チェックを行う関数
+  // 型注釈のないフィールドは、初期化の式の型をリテラル型から広げた型とする（例: count = 0 は number）
   function checkPropertyDeclaration(property: PropertyDeclaration): Type {
     if (property.typename) {
-      return checkType(property.typename)
+      const t = checkType(property.typename)
+      const i = property.initializer && checkExpression(property.initializer, t)
+      const elaboration: string[] = []
+      if (i && !isAssignableTo(i, t, elaboration))
+        addMessageChain(error(property.initializer!, Diagnostics.Cannot_assign_initialiser_of_type_0_to_property_with_declared_type_1, typeToString(i), typeToString(t)), elaboration)
+      return t
+    }
+    if (property.initializer) {
+      // 初期化の式の中で自分自身を参照している場合（例: x = this.x）に循環しないよう、解析中は any型としておく
+      property.symbol.valueType = anyType
+      return property.symbol.valueType = getWidenedLiteralType(checkExpression(property.initializer))
     }
     return anyType
   }
 
+  // クラス宣言の型チェックを行う関数
+  // フィールドの初期化の式・メソッド・コンストラクタの本体をチェックし、クラスの値（コンストラクタ）の型を返す
+  function checkClass(declaration: Class): Type {
+    const type = getValueTypeOfSymbol(declaration.symbol)
+    for (const element of declaration.elements) {
+      switch (element.kind) {
+        case SyntaxKind.PropertyDeclaration:
+          checkPropertyDeclaration(element)
+          break
+        case SyntaxKind.Method:
+          getValueTypeOfSymbol(element.symbol)
+          break
+        case SyntaxKind.Constructor:
+          checkBody(element.body)
+          break
+      }
+    }
+    return type
+  }
+
+  // クラス宣言から、クラスの値（コンストラクタ）の型を取得する関数
+  // new で呼び出した際の引数はコンストラクタの引数とし（コンストラクタがない場合は引数なし）、戻り値はインスタンスの型とする
+  function getTypeOfClass(declaration: Class): ClassType {
+    const constructors = declaration.elements.filter(e => e.kind === SyntaxKind.Constructor)
+    for (const extra of constructors.slice(1)) {
+      error(extra, Diagnostics.Multiple_constructor_implementations_are_not_allowed)
+    }
+    const parameters = constructors[0]?.parameters ?? []
+    checkParameters(parameters)
+    const signature = { parameters: parameters.map(p => p.symbol), returnType: getTypeTypeOfSymbol(declaration.symbol) }
+    return declaration.symbol.valueType = { kind: Kind.Class, id: typeCount++, name: declaration.name.text, signature }
+  }
+
   // 引数で受け取ったシンボルの値の型を取得する関数
   function getValueTypeOfSymbol(symbol: Symbol): Type {
     // シンボルが値を持っているかどうかを確認
@@ -377,8 +1680,13 @@ export function checker(module: Module) {
       throw new Error("Cannot get value type of symbol without value declaration")
     }
     // すでに型が決まっている場合はその値をそのまま返す
-    if (symbol.valueType) 
+    // 戻り値の型を推論中の関数が return文の式から参照された場合は、戻り値の型が循環しているためエラー
+    if (symbol.valueType) {
+      if (symbol.returnTypeResolution) {
+        reportCircularReturnType(symbol)
+      }
       return symbol.valueType
+    }
     // シンボルが型エイリアスの場合は、エイリアスの型を取得
     if ('target' in symbol) {
       const alias = symbol as InstantiatedSymbol
@@ -394,47 +1702,94 @@ export function checker(module: Module) {
       case SyntaxKind.PropertyAssignment:
         return checkProperty(symbol.valueDeclaration)
       case SyntaxKind.PropertyDeclaration:
-        return symbol.valueDeclaration.typename ? checkType(symbol.valueDeclaration.typename) : anyType;
+        return checkPropertyDeclaration(symbol.valueDeclaration)
       case SyntaxKind.Parameter:
         return checkParameter(symbol.valueDeclaration)
       case SyntaxKind.Function:
+      case SyntaxKind.ArrowFunction:
+      case SyntaxKind.Method:
         return getTypeOfFunction(symbol.valueDeclaration)
+      case SyntaxKind.Class:
+        return getTypeOfClass(symbol.valueDeclaration)
+      // import した名前の場合は、import 元で export されたシンボルの型とする
+      // 循環した import で互いの変数の型を参照している場合に無限に再帰しないよう、解析中は error型を登録しておく
+      case SyntaxKind.ImportSpecifier: {
+        const target = resolveAlias(symbol)
+        if (!target) {
+          return errorType
+        }
+        symbol.valueType = errorType
+        const type = getValueTypeOfSymbol(target)
+        symbol.valueType = undefined
+        return type
+      }
       default:
         throw new Error("Unxpected value declaration kind " + SyntaxKind[(symbol.valueDeclaration as Declaration).kind])
     }
   }
 
-  // 関数を解析して、その関数の型を取得する関数
-  function getTypeOfFunction(func: Function): Type {
-    for (const typeParameter of func.typeParameters || []) {
-      // 関数の引数（ジェネリクス型）の型チェック
-      checkTypeParameter(typeParameter)
-    }
-    for (const parameter of func.parameters) {
-      // 関数の引数の型チェック
-      checkParameter(parameter)
-    }
+  // 関数・アロー関数・メソッドを解析して、その関数の型を取得する関数
+  function getTypeOfFunction(func: Function | ArrowFunction | Method): Type {
+    // 関数の引数（ジェネリクス型）の型チェック
+    checkTypeParameters(func.typeParameters)
+    // 関数の引数の型チェック
+    checkParameters(func.parameters)
     // 関数の戻り値の型を取得
     const declaredType = func.typename && checkType(func.typename)
-    // 関数の本体の型チェック
-    const bodyType = checkBody(func.body, declaredType)
+    // 戻り値の型を宣言した関数の本体の末尾に到達できる場合は、undefined を返すことになるためエラー
+    // strictNullChecks が無効の場合は、undefined をすべての型に代入できる（ユニオン型の undefined も他の型にまとめられる）ため報告しない
+    if (options.strictNullChecks && declaredType && Array.isArray(func.body) && func.endFlowNode?.kind !== FlowKind.Unreachable && !includesUndefined(declaredType)) {
+      error(func.typename!, Diagnostics.Function_lacks_ending_return_statement_and_return_type_does_not_include_undefined)
+    }
+    // 本体の中で自分自身を参照している場合（例: メソッドの中の this.m()）に循環しないよう、本体の解析中は仮の型を登録しておく
+    // 戻り値の型が宣言されていない場合、仮の型の戻り値は any型とする
+    func.symbol.valueType = {
+      kind: Kind.Function,
+      id: typeCount++,
+      signature: { typeParameters: func.typeParameters?.map(p => p.symbol), parameters: func.parameters.map(p => p.symbol), returnType: declaredType || anyType },
+    }
+    // 関数の本体の型チェック（アロー関数の本体が式の場合は、その式の型を戻り値の型とする）
+    const bodyType = Array.isArray(func.body)
+      ? checkBody(func.body, declaredType, func.endFlowNode?.kind !== FlowKind.Unreachable)
+      : checkExpressionBody(func.body, declaredType)
+    const isCircular = func.symbol.returnTypeResolution === "circular"
+    func.symbol.returnTypeResolution = undefined
     const signature = {
       typeParameters: func.typeParameters?.map(p => p.symbol),
       parameters: func.parameters.map(p => p.symbol),
-      returnType: declaredType || bodyType,
+      // 戻り値の型を推論する場合は、リテラル型を元のプリミティブ型に広げる（戻り値の型が循環している場合は any型とする）
+      returnType: declaredType || (isCircular ? anyType : getWidenedLiteralType(bodyType)),
     }
     return func.symbol.valueType = { kind: Kind.Function, id: typeCount++, signature }
   }
 
+  // 関数の末尾に到達して undefined を返すことが許される戻り値の型かどうかを判別する関数
+  // void・any・unknown型と、undefined を含むユニオン型の場合は true を返す
+  function includesUndefined(type: Type): boolean {
+    if (type === undefinedType || type === voidType || type === anyType || type === unknownType || type === errorType) {
+      return true
+    }
+    return type.kind === Kind.Union && type.types.some(includesUndefined)
+  }
+
+  // 戻り値の型を推論中の関数が、return文の式から直接または間接的に参照されていることをエラーとして報告する関数
+  // 例）function f() { return f() } は、f の戻り値の型を決めるために f の戻り値の型が必要になる
+  function reportCircularReturnType(symbol: Symbol) {
+    symbol.returnTypeResolution = "circular"
+    const declaration = symbol.valueDeclaration as Function | Method
+    error(declaration.name ?? declaration, Diagnostics._0_implicitly_has_return_type_any_because_it_does_not_have_a_return_type_annotation_and_is_referenced_directly_or_indirectly_in_one_of_its_return_expressions, getDeclarationName(declaration))
+  }
+
   // 関数の型定義を解析して、その関数の型を取得する関数
   // type Fn = (x: number) => string のような関数の定義本体を持たない型定義を解析する
   function getTypeOfSignature(decl: SignatureDeclaration): Type {
-    for (const typeParameter of decl.typeParameters || []) {
-      checkTypeParameter(typeParameter)
-    }
+    checkTypeParameters(decl.typeParameters)
+    // 関数の型定義の引数は、デフォルト値を持つことができない
     for (const parameter of decl.parameters) {
-      checkParameter(parameter)
+      if (parameter.initializer)
+        error(parameter.initializer, Diagnostics.A_parameter_initializer_is_only_allowed_in_a_function_or_constructor_implementation)
     }
+    checkParameters(decl.parameters)
     const signature = {
       typeParameters: decl.typeParameters?.map(p => p.symbol),
       parameters: decl.parameters.map(p => p.symbol),
@@ -457,43 +1812,194 @@ export function checker(module: Module) {
     for (const d of symbol.declarations) {
       switch (d.kind) {
         // 型エイリアス（type X = Y）の場合
-        case SyntaxKind.TypeAlias:
-          return checkType(d.typename)
+        // ジェネリック型エイリアスの場合は、型パラメータを型変数のまま含む型になる（型引数での具体化は getTypeAliasInstantiation で行う）
+        // 型の解析中に、オブジェクト型のプロパティを介さずに自分自身を参照した場合はエラーとし、error型とする（例: type R = R、type R = R[]）
+        // オブジェクト型はプロパティの型をチェックする前に登録するため、プロパティから自分自身を参照することはできる（例: type R = { a: R }）
+        case SyntaxKind.TypeAlias: {
+          if (symbol.typeResolution) {
+            if (d.typename.kind === SyntaxKind.ObjectLiteralType && d.typename.symbol.typeType) {
+              return d.typename.symbol.typeType
+            }
+            symbol.typeResolution = "circular"
+            return errorType
+          }
+          symbol.typeResolution = "resolving"
+          const type = checkType(d.typename)
+          // checkType の中で自分自身が参照された場合は "circular" に変わっている
+          const isCircular = (symbol.typeResolution as Symbol["typeResolution"]) === "circular"
+          symbol.typeResolution = undefined
+          if (isCircular) {
+            error(d.name, Diagnostics.Type_alias_0_circularly_references_itself, d.name.text)
+          }
+          return symbol.typeType = isCircular ? errorType : type
+        }
+        // インターフェース（interface X { ... }）の場合
+        case SyntaxKind.Interface:
+          return getTypeOfInterface(symbol)
+        // クラス（class X { ... }）の場合は、フィールドとメソッドを持つインスタンスの型とする
+        case SyntaxKind.Class:
+          return symbol.typeType = { kind: Kind.Object, id: typeCount++, members: d.members, name: d.name.text }
         // ジェネリック型パラメータ（T）の場合
-        case SyntaxKind.TypeParameter:
-          return symbol.typeType = { id: typeCount++, kind: Kind.TypeVariable, name: d.name.text }
+        // 制約が自分自身を参照できるよう（例: T extends Box<T>）、型変数を登録してから制約とデフォルトの型を解析する
+        case SyntaxKind.TypeParameter: {
+          const typeVariable: TypeVariable = { id: typeCount++, kind: Kind.TypeVariable, name: d.name.text }
+          symbol.typeType = typeVariable
+          typeVariable.constraint = d.constraint && checkType(d.constraint)
+          typeVariable.default = d.default && checkType(d.default)
+          return typeVariable
+        }
         // 関数のシグネチャ（(x: number) => string）の場合
         case SyntaxKind.Signature:
           return getTypeOfSignature(d)
+        // import した名前の場合は、import 元で export されたシンボルの型とする
+        case SyntaxKind.ImportSpecifier: {
+          const target = resolveAlias(symbol)
+          return target ? getTypeTypeOfSymbol(target) : errorType
+        }
       }
     }
     throw new Error(`Symbol has no type declarations`)
   }
 
+  // インターフェースのシンボルから、そのインターフェースの型を取得する関数
+  // 同じ名前の宣言（宣言のマージ）と extends で継承したインターフェースのプロパティを、1つのオブジェクト型にまとめる
+  function getTypeOfInterface(symbol: Symbol): ObjectType {
+    const members: Table = new Map()
+    // 自分自身を参照するプロパティ（例: next: Node）に対応するため、先に型を登録しておく
+    const type: ObjectType = symbol.typeType = { kind: Kind.Object, id: typeCount++, members }
+    const declarations = symbol.declarations.filter((d): d is Interface => d.kind === SyntaxKind.Interface)
+    // 継承したインターフェースのプロパティを追加（エラー表示のため、どのインターフェースから継承したかも記録する）
+    const bases = new Map<string, Identifier>()
+    for (const d of declarations) {
+      for (const base of d.heritage ?? []) {
+        // extends をたどって自分自身を継承している場合はエラーとし、継承元のプロパティは追加しない
+        if (isCircularBase(base, symbol)) {
+          error(base, Diagnostics.Type_0_recursively_references_itself_as_a_base_type, d.name.text)
+          continue
+        }
+        const baseType = checkType(base)
+        if (baseType.kind !== Kind.Object) {
+          if (baseType !== errorType)
+            error(base, Diagnostics.An_interface_can_only_extend_an_object_type)
+          continue
+        }
+        for (const [name, member] of baseType.members) {
+          members.set(name, member)
+          bases.set(name, base)
+        }
+      }
+    }
+    // 各宣言のプロパティを追加
+    const own: Table = new Map()
+    for (const d of declarations) {
+      for (const property of d.properties) {
+        const name = property.name.text
+        const t = checkPropertyDeclaration(property)
+        const previous = own.get(name)
+        // マージした宣言同士で同じプロパティの型が異なる場合はエラー
+        if (previous) {
+          const p = getValueTypeOfSymbol(previous)
+          if (!isAssignableTo(p, t) || !isAssignableTo(t, p))
+            error(property, Diagnostics.Subsequent_property_declarations_must_have_the_same_type_Property_0_must_be_of_type_1_but_here_has_type_2, name, typeToString(p), typeToString(t))
+          continue
+        }
+        // 継承したプロパティを、互換性のない型で上書きしている場合はエラー
+        const base = bases.get(name)
+        if (base && !isAssignableTo(t, getValueTypeOfSymbol(members.get(name)!)))
+          error(property, Diagnostics.Interface_0_incorrectly_extends_interface_1_Types_of_property_2_are_incompatible, d.name.text, base.text, name)
+        own.set(name, property.symbol)
+        members.set(name, property.symbol)
+      }
+    }
+    return type
+  }
+
+  // extends で継承したインターフェースをたどって、target のインターフェースに戻るかどうかを判別する関数
+  // 例）interface Self extends Self {}、interface A extends B {} と interface B extends A {}
+  function isCircularBase(base: Identifier, target: Symbol, visited = new Set<Symbol>()): boolean {
+    const symbol = resolve(base, base.text, Meaning.Type)
+    const resolved = symbol && resolveAlias(symbol)
+    if (!resolved || resolved === target) {
+      return resolved === target
+    }
+    if (visited.has(resolved)) {
+      return false
+    }
+    visited.add(resolved)
+    return resolved.declarations.some(d => d.kind === SyntaxKind.Interface && (d.heritage ?? []).some(h => isCircularBase(h, target, visited)))
+  }
+
   // 型定義を文字列に変換する関数
   // 型エラーが発生した際のエラー内容を表示するために、型の情報を文字列に変換する
   function typeToString(type: Type): string {
+    // ジェネリック型エイリアスを具体化した型の場合は、型エイリアスの名前と型引数で表す（例: Box<number>）
+    if (type.aliasSymbol) {
+      return `${(type.aliasSymbol.declarations[0] as TypeAlias).name.text}<${type.aliasTypeArguments!.map(typeToString).join(", ")}>`
+    }
     switch (type.kind) {
       // プリミティブ型（string, number...）の場合
       case Kind.Primitive:
         switch (type.id) {
           case stringType.id: return 'string'
           case numberType.id: return 'number'
+          case bigintType.id: return 'bigint'
+          case booleanType.id: return 'boolean'
           case errorType.id: return 'error'
           case anyType.id: return 'any'
+          case nullType.id: return 'null'
+          case undefinedType.id: return 'undefined'
+          case voidType.id: return 'void'
+          case unknownType.id: return 'unknown'
           default: throw new Error("Unknown primitive type with id " + type.id)
         }
       // オブジェクト型の場合
-      case Kind.Object:
+      // クラスのインスタンスの型の場合は、クラス名とする
+      // 自分自身をプロパティの型に持つオブジェクト型は、内側で再び現れた箇所を "..." とする（例: { a: ... }）
+      case Kind.Object: {
+        if (type.name) {
+          return type.name
+        }
+        if (typesBeingPrinted.has(type)) {
+          return '...'
+        }
+        typesBeingPrinted.add(type)
         const propertiesToString = ([name,symbol]: [string, Symbol]) => `${name}: ${typeToString(getValueTypeOfSymbol(symbol))}`
-        return `{ ${Array.from(type.members).map(propertiesToString).join(', ')} }`
+        const result = `{ ${Array.from(type.members).map(propertiesToString).join(', ')} }`
+        typesBeingPrinted.delete(type)
+        return result
+      }
       // 関数型の場合
       case Kind.Function:
-        const parametersToString = (p: Symbol) => `${(p.valueDeclaration as Parameter).name.text}: ${typeToString(getValueTypeOfSymbol(p))}`
+        const parametersToString = (p: Symbol) => {
+          const d = p.valueDeclaration as Parameter
+          return `${d.isRest ? "..." : ""}${d.name.text}${d.isOptional || d.initializer ? "?" : ""}: ${typeToString(getValueTypeOfSymbol(p))}`
+        }
         return `(${type.signature.parameters.map(parametersToString).join(', ')}) => ${typeToString(type.signature.returnType)}`
       // 型変数の場合
       case Kind.TypeVariable:
         return type.name
+      // 配列型の場合は、要素の型が関数型の場合に括弧で囲む（例: (() => number)[]）
+      case Kind.Array:
+        const elementString = typeToString(type.elementType)
+        return compositeKinds.has(type.elementType.kind) ? `(${elementString})[]` : `${elementString}[]`
+      // タプル型の場合
+      case Kind.Tuple:
+        return `[${type.elementTypes.map(typeToString).join(', ')}]`
+      // リテラル型の場合
+      case Kind.Literal:
+        return typeof type.value === "string" ? JSON.stringify(type.value) : typeof type.value === "bigint" ? `${type.value}n` : String(type.value)
+      // ユニオン型の場合は、関数型を括弧で囲む（型が1つもない場合は never とする）
+      case Kind.Union:
+        if (!type.types.length) {
+          return 'never'
+        }
+        return type.types.map(t => t.kind === Kind.Function ? `(${typeToString(t)})` : typeToString(t)).join(' | ')
+      // インターセクション型の場合は、関数型・ユニオン型を括弧で囲む
+      case Kind.Intersection:
+        return type.types.map(t => t.kind === Kind.Function || t.kind === Kind.Union ? `(${typeToString(t)})` : typeToString(t)).join(' & ')
+      // クラス型の場合
+      case Kind.Class:
+        return `typeof ${type.name}`
     }
   }
 
@@ -502,7 +2008,10 @@ export function checker(module: Module) {
   function resolve(location: Node, name: string, meaning: Meaning) {
     while (location) {
       // スコープ内に対応のシンボルテーブルがあるかどうかを確認
-      const table = (location.kind === SyntaxKind.Module || location.kind === SyntaxKind.Function || location.kind === SyntaxKind.Signature) ? location.locals
+      // ブロック・for文は、let・const で宣言された変数のスコープになる
+      const table = (location.kind === SyntaxKind.Module || location.kind === SyntaxKind.Function || location.kind === SyntaxKind.ArrowFunction
+        || location.kind === SyntaxKind.Signature || location.kind === SyntaxKind.Block || location.kind === SyntaxKind.For
+        || location.kind === SyntaxKind.Method || location.kind === SyntaxKind.Constructor || location.kind === SyntaxKind.TypeAlias) ? location.locals
         : (location.kind === SyntaxKind.Object || location.kind === SyntaxKind.ObjectLiteralType) ? location.symbol.members 
         : undefined
       // シンボルテーブルがある場合は、名前を元にシンボルを取得
@@ -518,34 +2027,90 @@ export function checker(module: Module) {
   }
 
   // 指定された名前と種類（値・型）に一致するシンボルを、指定されたスコープ内から探す関数
+  // import した名前の場合は、import 元で export されたシンボルが同じ種類の意味を持つかどうかも確認する
   function getSymbol(locals: Table, name: string, meaning: Meaning) {
     const symbol = locals.get(name)
-    if (symbol?.declarations.some(d => getMeaning(d) === meaning)) {
+    if (symbol?.declarations.some(d => hasMeaning(d, meaning))) {
+      const target = resolveAlias(symbol)
+      if (!target || target.declarations.some(d => hasMeaning(d, meaning))) {
+        return symbol
+      }
+    }
+  }
+
+  // import した名前のシンボルから、import 元のモジュールで export されたシンボルを取得する関数
+  // import した名前でない場合はシンボルをそのまま返し、import 元のシンボルが見つからない場合は undefined を返す
+  function resolveAlias(symbol: Symbol): Symbol | undefined {
+    const declaration = symbol.declarations[0]
+    if (declaration?.kind !== SyntaxKind.ImportSpecifier) {
       return symbol
     }
+    const module = (declaration.parent as Import).module
+    return module?.exports.get((declaration.propertyName ?? declaration.name).text)
   }
 
   // 値(第一引数のsource)が定義された型(第二引数のtarget)に代入可能かどうかを判定する関数
   // 型の互換性を確認するために、型の種類やメンバーの型を比較する
   // booleanの値を返し、代入可能でなければ呼び出し元でエラーを出力する
-  function isAssignableTo(source: Type, target: Type): boolean {
+  // 代入できない場合に elaboration を渡すと、代入できない理由の詳細を外側から順に追加する
+  // 例）{ x: string } を { x: number } に代入する場合は "Types of property 'x' are incompatible." と "Type 'string' is not assignable to type 'number'."
+  function isAssignableTo(source: Type, target: Type, elaboration?: string[]): boolean {
     // 型の種類が同じか、any型またはerror型の場合はtrueを返す
     if (source === target 
       || source === anyType || target === anyType 
       || source === errorType || target === errorType)
       return true
+    // unknown型にはすべての型を代入できる
+    else if (target === unknownType)
+      return true
+    // strictNullChecks が無効の場合、null・undefined は never型以外のすべての型に代入できる
+    else if ((source === nullType || source === undefinedType) && !options.strictNullChecks && target !== neverType)
+      return true
+    // undefined は void型に代入できる
+    else if (source === undefinedType && target === voidType)
+      return true
+    // 代入元が式のオブジェクトリテラルの場合は、代入先にないプロパティを持っていないかを比較してから、プロパティの型を比較する
+    // プロパティの値のオブジェクトリテラルも比較の中で同じようにチェックするため、外側のオブジェクトのみを通常のオブジェクト型として比較する
+    // 例）{ x: 1, y: 2 } は { x: number } に代入できない（変数に代入した後のオブジェクトであれば代入できる）
+    else if (source.kind === Kind.Object && source.isFresh && isExcessPropertyCheckTarget(target))
+      return !hasExcessProperty(source, target, elaboration) && isAssignableTo({ kind: Kind.Object, id: typeCount++, members: source.members }, target, elaboration)
+    // 代入元がユニオン型の場合は、すべての型を代入できるかを比較
+    else if (source.kind === Kind.Union)
+      return source.types.every(t => isAssignableTo(t, target))
+    // 代入先がユニオン型の場合は、いずれかの型に代入できるかを比較
+    else if (target.kind === Kind.Union)
+      return target.types.some(t => isAssignableTo(source, t))
+    // 代入先がインターセクション型の場合は、すべての型に代入できるかを比較
+    else if (target.kind === Kind.Intersection)
+      return target.types.every(t => isAssignableTo(source, t))
+    // 代入元がインターセクション型の場合は、いずれかの型を代入できるかを比較
+    // 代入できない場合も、代入先がオブジェクト型であれば、すべての型のプロパティを合わせて比較する
+    else if (source.kind === Kind.Intersection && source.types.some(t => isAssignableTo(t, target)))
+      return true
+    // 代入元が制約を持つ型変数の場合は、制約の型を代入できるかを比較（例: T extends string の T は string に代入できる）
+    else if (source.kind === Kind.TypeVariable && source.constraint)
+      return isAssignableTo(source.constraint, target, elaboration)
+    // string型・文字列リテラル型は、length プロパティを持つ型としてオブジェクト型と比較する（例: "abc" は { length: number } に代入できる）
+    else if ((source === stringType || source.kind === Kind.Literal && typeof source.value === "string") && target.kind === Kind.Object)
+      return isPropertiesAssignableTo(source, target, elaboration)
+    // リテラル型の場合は、元になるプリミティブ型と同じかどうかを比較
+    else if (source.kind === Kind.Literal)
+      return getBaseTypeOfLiteralType(source) === target
     // プリミティブ型の場合は、型の種類が同じかどうかを比較
     else if (source.kind === Kind.Primitive || target.kind === Kind.Primitive)
       return source === target
     // オブジェクト型の場合は、オブジェクトのプロパティの型を比較
-    else if (source.kind === Kind.Object && target.kind === Kind.Object) {
-      for (const [key, targetSymbol] of target.members) {
-        const sourceSymbol = source.members.get(key)
-        if (!sourceSymbol || !isAssignableTo(getValueTypeOfSymbol(sourceSymbol), getValueTypeOfSymbol(targetSymbol))) {
-          return false
-        }
+    // 配列型・タプル型も、プロパティ（length）を持つ型としてオブジェクト型と比較する（例: number[] は { length: number } に代入できる）
+    // 比較中の型の組を再び比較する場合（自分自身をプロパティの型に持つ場合）は、代入可能とみなす
+    else if ((source.kind === Kind.Object || source.kind === Kind.Intersection || source.kind === Kind.Array || source.kind === Kind.Tuple) && target.kind === Kind.Object) {
+      const pair = `${source.id},${target.id}`
+      if (assignabilityStack.has(pair)) {
+        return true
       }
-      return true
+      assignabilityStack.add(pair)
+      const result = isPropertiesAssignableTo(source, target, elaboration)
+      assignabilityStack.delete(pair)
+      return result
     }
     // 関数型の場合は、関数の引数の型と戻り値の型を比較
     else if (source.kind === Kind.Function && target.kind === Kind.Function) {
@@ -560,11 +2125,81 @@ export function checker(module: Module) {
         }
       }
       // 関数の戻り値の型・引数の数・各引数の型を比較
-      return isAssignableTo(source.signature.returnType, targetSignature.returnType)
-        && source.signature.parameters.length <= targetSignature.parameters.length
-        && source.signature.parameters.every((p, i) => 
-          isAssignableTo(getValueTypeOfSymbol(targetSignature.parameters[i]), getValueTypeOfSymbol(p)))
+      // 代入元の省略できない引数は、代入先の引数の数（残余引数がある場合は上限なし）に収まる必要がある
+      // 各引数の型は、両方に対応する引数（残余引数を含む）がある位置のみ比較する
+      const sourceSignature = source.signature
+      const targetMax = hasRestParameter(targetSignature) ? Infinity : targetSignature.parameters.length
+      const count = Math.max(sourceSignature.parameters.length, targetSignature.parameters.length)
+      if (!isAssignableTo(sourceSignature.returnType, targetSignature.returnType) || getMinArgumentCount(sourceSignature) > targetMax) {
+        return false
+      }
+      for (let i = 0; i < count; i++) {
+        const sourceType = getTypeOfParameterAt(sourceSignature, i)
+        const targetType = getTypeOfParameterAt(targetSignature, i)
+        if (sourceType && targetType && !isAssignableTo(targetType, sourceType)) {
+          return false
+        }
+      }
+      return true
+    }
+    // 配列型の場合は、要素の型を比較する（タプル型も、すべての要素を代入できる場合は配列型に代入できる）
+    else if (target.kind === Kind.Array && (source.kind === Kind.Array || source.kind === Kind.Tuple)) {
+      const sourceElementTypes = source.kind === Kind.Array ? [source.elementType] : source.elementTypes
+      return sourceElementTypes.every(t => isAssignableTo(t, target.elementType))
+    }
+    // タプル型の場合は、要素の数が同じかどうかと、同じ位置の要素の型を比較する
+    else if (source.kind === Kind.Tuple && target.kind === Kind.Tuple) {
+      return source.elementTypes.length === target.elementTypes.length
+        && source.elementTypes.every((t, i) => isAssignableTo(t, target.elementTypes[i]))
+    }
+    return false
+  }
+
+  // 代入先のオブジェクト型のすべてのプロパティについて、代入元に同じ名前のプロパティがあり、その型を代入できるかどうかを判定する関数
+  function isPropertiesAssignableTo(source: Type, target: ObjectType, elaboration?: string[]): boolean {
+    for (const [key, targetSymbol] of target.members) {
+      const sourceType = getTypeOfPropertyOfType(source, key)
+      if (!sourceType) {
+        elaboration?.push(formatMessage(Diagnostics.Property_0_is_missing_in_type_1_but_required_in_type_2, [key, typeToString(source), typeToString(target)]))
+        return false
+      }
+      const targetType = getValueTypeOfSymbol(targetSymbol)
+      const propertyElaboration: string[] = []
+      if (!isAssignableTo(sourceType, targetType, propertyElaboration)) {
+        elaboration?.push(
+          formatMessage(Diagnostics.Types_of_property_0_are_incompatible, [key]),
+          formatMessage(Diagnostics.Type_0_is_not_assignable_to_type_1, [typeToString(sourceType), typeToString(targetType)]),
+          ...propertyElaboration,
+        )
+        return false
+      }
+    }
+    return true
+  }
+
+  // 余分なプロパティのチェックを行う代入先の型かどうかを判別する関数
+  // プロパティを持つオブジェクト型と、そのようなオブジェクト型のみからなるユニオン型・インターセクション型が対象（{} は対象外）
+  function isExcessPropertyCheckTarget(type: Type): boolean {
+    return type.kind === Kind.Object ? type.members.size > 0
+      : type.kind === Kind.Union || type.kind === Kind.Intersection ? type.types.every(isExcessPropertyCheckTarget)
+      : false
+  }
+
+  // 式のオブジェクトリテラルが、代入先の型にないプロパティを持っているかを判別する関数
+  // ユニオン型・インターセクション型の場合は、いずれかの型にあるプロパティであればよい
+  function hasExcessProperty(source: ObjectType, target: Type, elaboration?: string[]): boolean {
+    for (const name of source.members.keys()) {
+      if (!isKnownProperty(target, name)) {
+        elaboration?.push(formatMessage(Diagnostics.Object_literal_may_only_specify_known_properties_and_0_does_not_exist_in_type_1, [name, typeToString(target)]))
+        return true
+      }
     }
     return false
   }
+
+  // 型がプロパティを持っているかどうかを判別する関数（ユニオン型・インターセクション型の場合は、いずれかの型が持っていればよい）
+  function isKnownProperty(type: Type, name: string): boolean {
+    return type.kind === Kind.Object ? type.members.has(name)
+      : (type.kind === Kind.Union || type.kind === Kind.Intersection) && type.types.some(t => isKnownProperty(t, name))
+  }
 }
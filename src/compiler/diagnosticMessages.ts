@@ -0,0 +1,106 @@
+import { DiagnosticCategory } from "./parser/type.js";
+import type { DiagnosticMessage } from "./parser/type.js";
+
+// エラーのメッセージの定義を作成する関数
+function diag(code: number, category: DiagnosticCategory, message: string): DiagnosticMessage {
+  return { code, category, message }
+}
+
+// コンパイラが報告するエラーのメッセージの一覧
+// 名前はメッセージの本文から作り、番号は一度決めたら変更しない（エラーの番号で絞り込むツールが使えるようにする）
+// 1000番台は構文に関するエラー、2000番台は型チェック、5000番台はプログラム全体、6000番台は他のエラーに付けるメッセージ、
+// 7000番台は実行はできるが誤りの可能性が高いコード（到達できないコードは、エラーではなく警告とする）
+export const Diagnostics = {
+  // 字句解析（scanner）
+  Unterminated_string_literal: diag(1002, DiagnosticCategory.Error, "Unterminated string literal"),
+  Unterminated_block_comment_expected: diag(1010, DiagnosticCategory.Error, "Unterminated block comment; expected '*/'"),
+  Digit_expected: diag(1124, DiagnosticCategory.Error, "Digit expected"),
+  Hexadecimal_digit_expected: diag(1125, DiagnosticCategory.Error, "Hexadecimal digit expected"),
+  Unterminated_template_literal: diag(1160, DiagnosticCategory.Error, "Unterminated template literal"),
+  Binary_digit_expected: diag(1177, DiagnosticCategory.Error, "Binary digit expected"),
+  Octal_digit_expected: diag(1178, DiagnosticCategory.Error, "Octal digit expected"),
+  Invalid_Unicode_escape_sequence: diag(1198, DiagnosticCategory.Error, "Invalid Unicode escape sequence"),
+  An_identifier_or_keyword_cannot_immediately_follow_a_numeric_literal: diag(1351, DiagnosticCategory.Error, "An identifier or keyword cannot immediately follow a numeric literal"),
+  A_bigint_literal_must_be_an_integer: diag(1353, DiagnosticCategory.Error, "A bigint literal must be an integer"),
+  Numeric_separators_are_not_allowed_here: diag(1388, DiagnosticCategory.Error, "Numeric separators are not allowed here"),
+  Multiple_consecutive_numeric_separators_are_not_permitted: diag(1389, DiagnosticCategory.Error, "Multiple consecutive numeric separators are not permitted"),
+
+  // 構文解析（parser）
+  Expected_identifier_but_got_a_literal: diag(1003, DiagnosticCategory.Error, "Expected identifier but got a literal"),
+  _0_expected: diag(1005, DiagnosticCategory.Error, "'{0}' expected."),
+  A_rest_parameter_must_be_last_in_a_parameter_list: diag(1014, DiagnosticCategory.Error, "A rest parameter must be last in a parameter list."),
+  Parameter_cannot_have_question_mark_and_initializer: diag(1015, DiagnosticCategory.Error, "Parameter cannot have question mark and initializer."),
+  A_required_parameter_cannot_follow_an_optional_parameter: diag(1016, DiagnosticCategory.Error, "A required parameter cannot follow an optional parameter."),
+  A_rest_parameter_cannot_be_optional: diag(1047, DiagnosticCategory.Error, "A rest parameter cannot be optional."),
+  A_rest_parameter_cannot_have_an_initializer: diag(1048, DiagnosticCategory.Error, "A rest parameter cannot have an initializer."),
+  A_0_statement_can_only_be_used_within_an_enclosing_iteration_statement: diag(1104, DiagnosticCategory.Error, "A '{0}' statement can only be used within an enclosing iteration statement."),
+  Identifier_or_literal_expected: diag(1109, DiagnosticCategory.Error, "Identifier or literal expected."),
+  Declaration_or_statement_expected: diag(1128, DiagnosticCategory.Error, "Declaration or statement expected."),
+  String_literal_expected: diag(1141, DiagnosticCategory.Error, "String literal expected."),
+  From_expected: diag(1142, DiagnosticCategory.Error, "'from' expected."),
+  Modifiers_cannot_appear_here: diag(1184, DiagnosticCategory.Error, "Modifiers cannot appear here."),
+  An_import_declaration_can_only_be_used_at_the_top_level_of_a_module: diag(1232, DiagnosticCategory.Error, "An import declaration can only be used at the top level of a module."),
+  The_left_hand_side_of_an_assignment_expression_must_be_a_variable_or_a_property_access: diag(1364, DiagnosticCategory.Error, "The left-hand side of an assignment expression must be a variable or a property access."),
+  _0_and_1_operations_cannot_be_mixed_without_parentheses: diag(1376, DiagnosticCategory.Error, "'{0}' and '{1}' operations cannot be mixed without parentheses."),
+  An_unary_expression_is_not_allowed_in_the_left_hand_side_of_an_exponentiation_expression: diag(1406, DiagnosticCategory.Error, "An unary expression is not allowed in the left-hand side of an exponentiation expression; consider enclosing the expression in parentheses"),
+
+  // 名前解決・型チェック（binder・checker）
+  Could_not_resolve_0: diag(2304, DiagnosticCategory.Error, "Could not resolve {0}"),
+  Module_0_has_no_exported_member_1: diag(2305, DiagnosticCategory.Error, "Module {0} has no exported member '{1}'."),
+  Could_not_resolve_type_0: diag(2306, DiagnosticCategory.Error, "Could not resolve type {0}"),
+  Type_0_recursively_references_itself_as_a_base_type: diag(2310, DiagnosticCategory.Error, "Type '{0}' recursively references itself as a base type."),
+  An_interface_can_only_extend_an_object_type: diag(2312, DiagnosticCategory.Error, "An interface can only extend an object type."),
+  Generic_type_0_requires_1_type_argument_s: diag(2314, DiagnosticCategory.Error, "Generic type '{0}' requires {1} type argument(s)."),
+  Type_0_is_not_generic: diag(2315, DiagnosticCategory.Error, "Type '{0}' is not generic."),
+  Cannot_assign_initialiser_of_type_0_to_variable_with_declared_type_1: diag(2320, DiagnosticCategory.Error, "Cannot assign initialiser of type '{0}' to variable with declared type '{1}'."),
+  Cannot_assign_initialiser_of_type_0_to_parameter_with_declared_type_1: diag(2321, DiagnosticCategory.Error, "Cannot assign initialiser of type '{0}' to parameter with declared type '{1}'."),
+  Cannot_assign_initialiser_of_type_0_to_property_with_declared_type_1: diag(2323, DiagnosticCategory.Error, "Cannot assign initialiser of type '{0}' to property with declared type '{1}'."),
+  Cannot_assign_value_of_type_0_to_variable_of_type_1: diag(2324, DiagnosticCategory.Error, "Cannot assign value of type '{0}' to variable of type '{1}'."),
+  Returned_type_0_does_not_match_declared_return_type_1: diag(2325, DiagnosticCategory.Error, "Returned type '{0}' does not match declared return type '{1}'."),
+  Property_0_does_not_exist_on_type_1: diag(2339, DiagnosticCategory.Error, "Property '{0}' does not exist on type '{1}'."),
+  Type_0_does_not_satisfy_the_constraint_1: diag(2344, DiagnosticCategory.Error, "Type '{0}' does not satisfy the constraint '{1}'."),
+  Expected_argument_of_type_0_but_got_1: diag(2345, DiagnosticCategory.Error, "Expected argument of type '{0}', but got '{1}'."),
+  Value_of_type_0_is_not_callable_Did_you_mean_to_include_new: diag(2348, DiagnosticCategory.Error, "Value of type '{0}' is not callable. Did you mean to include 'new'?"),
+  Cannot_call_expression_of_type_0: diag(2349, DiagnosticCategory.Error, "Cannot call expression of type '{0}'."),
+  Cannot_use_new_with_an_expression_of_type_0: diag(2351, DiagnosticCategory.Error, "Cannot use 'new' with an expression of type '{0}'."),
+  No_best_common_type_exists_among_return_expressions: diag(2354, DiagnosticCategory.Error, "No best common type exists among return expressions."),
+  Operator_0_cannot_be_applied_to_types_1_and_2: diag(2365, DiagnosticCategory.Error, "Operator '{0}' cannot be applied to types '{1}' and '{2}'."),
+  Function_lacks_ending_return_statement_and_return_type_does_not_include_undefined: diag(2366, DiagnosticCategory.Error, "Function lacks ending return statement and return type does not include 'undefined'."),
+  This_comparison_appears_to_be_unintentional_because_the_types_0_and_1_have_no_overlap: diag(2367, DiagnosticCategory.Error, "This comparison appears to be unintentional because the types '{0}' and '{1}' have no overlap."),
+  A_rest_parameter_must_be_of_an_array_type: diag(2370, DiagnosticCategory.Error, "A rest parameter must be of an array type."),
+  A_parameter_initializer_is_only_allowed_in_a_function_or_constructor_implementation: diag(2371, DiagnosticCategory.Error, "A parameter initializer is only allowed in a function or constructor implementation."),
+  Multiple_constructor_implementations_are_not_allowed: diag(2392, DiagnosticCategory.Error, "Multiple constructor implementations are not allowed."),
+  Interface_0_incorrectly_extends_interface_1_Types_of_property_2_are_incompatible: diag(2430, DiagnosticCategory.Error, "Interface '{0}' incorrectly extends interface '{1}'. Types of property '{2}' are incompatible."),
+  Block_scoped_variable_0_used_before_its_declaration: diag(2448, DiagnosticCategory.Error, "Block-scoped variable '{0}' used before its declaration."),
+  Class_0_used_before_its_declaration: diag(2449, DiagnosticCategory.Error, "Class '{0}' used before its declaration."),
+  Cannot_redeclare_0: diag(2451, DiagnosticCategory.Error, "Cannot redeclare '{0}'."),
+  Type_alias_0_circularly_references_itself: diag(2456, DiagnosticCategory.Error, "Type alias '{0}' circularly references itself."),
+  Tuple_type_0_of_length_1_has_no_element_at_index_2: diag(2493, DiagnosticCategory.Error, "Tuple type '{0}' of length '{1}' has no element at index '{2}'."),
+  Type_0_cannot_be_used_as_an_index_type: diag(2538, DiagnosticCategory.Error, "Type '{0}' cannot be used as an index type."),
+  Expected_0_arguments_but_got_1: diag(2554, DiagnosticCategory.Error, "Expected {0} arguments, but got {1}."),
+  Expected_0_type_arguments_but_got_1: diag(2558, DiagnosticCategory.Error, "Expected {0} type arguments, but got {1}."),
+  Cannot_assign_to_0_because_it_is_a_constant: diag(2588, DiagnosticCategory.Error, "Cannot assign to '{0}' because it is a constant."),
+  Cannot_assign_to_0_because_it_is_a_class: diag(2629, DiagnosticCategory.Error, "Cannot assign to '{0}' because it is a class."),
+  Cannot_assign_to_0_because_it_is_an_import: diag(2632, DiagnosticCategory.Error, "Cannot assign to '{0}' because it is an import."),
+  Required_type_parameters_may_not_follow_optional_type_parameters: diag(2706, DiagnosticCategory.Error, "Required type parameters may not follow optional type parameters."),
+  Generic_type_0_requires_between_1_and_2_type_arguments: diag(2707, DiagnosticCategory.Error, "Generic type '{0}' requires between {1} and {2} type arguments."),
+  Subsequent_property_declarations_must_have_the_same_type_Property_0_must_be_of_type_1_but_here_has_type_2: diag(2717, DiagnosticCategory.Error, "Subsequent property declarations must have the same type. Property '{0}' must be of type '{1}', but here has type '{2}'."),
+  Operator_0_cannot_be_applied_to_type_1: diag(2736, DiagnosticCategory.Error, "Operator '{0}' cannot be applied to type '{1}'."),
+  Cannot_get_name_of_0: diag(2900, DiagnosticCategory.Error, "Cannot get name of {0}"),
+
+  // プログラム全体（program）
+  Cannot_find_module_0: diag(5001, DiagnosticCategory.Error, "Cannot find module '{0}'."),
+  File_0_not_found: diag(5002, DiagnosticCategory.Error, "File '{0}' not found."),
+  Circular_import_detected_Colon_0: diag(5003, DiagnosticCategory.Error, "Circular import detected: {0}"),
+
+  // 他のエラーに付けるメッセージ（エラーの理由の詳細・関連する位置の説明）
+  Type_0_is_not_assignable_to_type_1: diag(6001, DiagnosticCategory.Message, "Type '{0}' is not assignable to type '{1}'."),
+  Types_of_property_0_are_incompatible: diag(6002, DiagnosticCategory.Message, "Types of property '{0}' are incompatible."),
+  Property_0_is_missing_in_type_1_but_required_in_type_2: diag(6003, DiagnosticCategory.Message, "Property '{0}' is missing in type '{1}' but required in type '{2}'."),
+  Object_literal_may_only_specify_known_properties_and_0_does_not_exist_in_type_1: diag(6004, DiagnosticCategory.Message, "Object literal may only specify known properties, and '{0}' does not exist in type '{1}'."),
+  _0_was_first_declared_here: diag(6005, DiagnosticCategory.Message, "'{0}' was first declared here."),
+
+  // 実行はできるが誤りの可能性が高いコード
+  _0_implicitly_has_return_type_any_because_it_does_not_have_a_return_type_annotation_and_is_referenced_directly_or_indirectly_in_one_of_its_return_expressions: diag(7023, DiagnosticCategory.Error, "'{0}' implicitly has return type 'any' because it does not have a return type annotation and is referenced directly or indirectly in one of its return expressions."),
+  Unreachable_code_detected: diag(7027, DiagnosticCategory.Warning, "Unreachable code detected."),
+}
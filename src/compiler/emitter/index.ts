@@ -1,4 +1,7 @@
-import { Statement, SyntaxKind, Expression, PropertyAssignment, Parameter, TypeNode } from '../parser/type.js'
+import { Statement, SyntaxKind, Expression, PropertyAssignment, Parameter, TypeParameter, TypeNode, BinaryExpression, ClassElement } from '../parser/type.js'
+import { binaryOperatorPrecedence } from '../parser/index.js'
+import { CommentKind } from '../scanner/type.js'
+import type { Comment } from '../scanner/type.js'
 
 /**
  * [全体像]
@@ -6,11 +9,63 @@ import { Statement, SyntaxKind, Expression, PropertyAssignment, Parameter, TypeN
  * 2. 各文は emitStatement によって構文の種類に応じた文字列へと変換され、式文・変数宣言・return 文・型定義などが適切な構文で出力される
  * 3. 各文に含まれる式（Expression）は emitExpression を通じて再帰的に文字列化され、関数・オブジェクト・代入式・関数呼び出しなどがそれぞれ対応した形式で出力される
  * 4. 型（TypeNode）については emitType により識別子型や関数型などを文字列に変換し、型注釈のある文や引数などで用いられる
- * 5. 最終的にすべての文をセミコロンと改行で区切って連結することで、ファイルに出力可能なソースコード文字列を完成させる
+ * 5. 文に紐づいたコメント（leadingComments / trailingComments）は、文の前後に元の位置関係を保って出力される
+ *    クラスの要素・オブジェクトのプロパティの直前のコメントや、本体の閉じ括弧 "}" の直前のコメント（closingComments）も出力される
+ * 6. ブロックや関数の本体は emitBlock により1段深いインデントで出力される
+ * 7. 最終的にすべての文をセミコロンと改行で区切って連結することで、ファイルに出力可能なソースコード文字列を完成させる
  */
-export function emitter(statements: Statement[]) {
-  // 各文（Statement）にセミコロン「;」と改行「\n」でつなげてコードとしての出力を生成
-  return statements.map(emitStatement).join(";\n")
+export function emitter(statements: Statement[], endOfFileComments: Comment[] = []) {
+  indentLevel = 0
+  // 各文（Statement）の末尾にセミコロン「;」をつけ、改行「\n」でつなげてコードとしての出力を生成
+  // ファイル末尾のコメントは最後に出力する
+  return [...statements.map(emitStatementWithComments), ...endOfFileComments.map(c => c.text)].join("\n")
+}
+
+// 現在のインデントの深さ（ブロックや関数の本体を出力する間だけ1つ深くする）
+let indentLevel = 0
+
+// 改行と、現在の深さのインデントを返す関数
+function newLine(): string {
+  return "\n" + "  ".repeat(indentLevel)
+}
+
+// 文（Statement）を、その前後のコメントも含めて文字列に変換する関数
+// ブロックで終わる文（if, while, for など）の末尾にはセミコロンをつけない
+// export された宣言の場合は、先頭に export をつける
+function emitStatementWithComments(statement: Statement): string {
+  const leading = emitLeadingComments(statement.leadingComments)
+  const trailing = (statement.trailingComments ?? []).map(c => " " + c.text).join("")
+  const semicolon = blockLikeStatementKinds.has(statement.kind) ? "" : ";"
+  const modifier = "isExported" in statement && statement.isExported ? "export " : ""
+  return `${leading}${modifier}${emitStatement(statement)}${semicolon}${trailing}`
+}
+
+// 文・要素の直前のコメントを文字列に変換する関数
+// コメントの後ろが改行の場合は改行し、同じ行に続く場合は空白を入れる
+function emitLeadingComments(comments: Comment[] = []): string {
+  return comments.map(c => c.text + (c.hasTrailingNewLine ? newLine() : " ")).join("")
+}
+
+// 末尾がブロックや別の文で終わるため、セミコロンをつけない文の種類
+const blockLikeStatementKinds = new Set([SyntaxKind.Interface, SyntaxKind.Class, SyntaxKind.Function, SyntaxKind.Block, SyntaxKind.If, SyntaxKind.While, SyntaxKind.For])
+
+// ブロック（{ ... }）の中の文を、1段深いインデントで文字列に変換する関数
+// 閉じ括弧 "}" の直前のコメント（例: // end of body）は、最後の文の後ろにそれぞれ1行ずつ出力する
+function emitBlock(statements: Statement[], closingComments: Comment[] = []): string {
+  if (!statements.length && !closingComments.length) {
+    return "{}"
+  }
+  indentLevel++
+  const body = statements.map(s => newLine() + emitStatementWithComments(s)).join("")
+  const closing = closingComments.map(c => newLine() + c.text).join("")
+  indentLevel--
+  return `{${body}${closing}${newLine()}}`
+}
+
+// if文やwhile文などの中にある1つの文を文字列に変換する関数
+// ブロックの場合はそのまま、それ以外の文はセミコロンを含めて出力する
+function emitEmbeddedStatement(statement: Statement): string {
+  return statement.kind === SyntaxKind.Block ? emitBlock(statement.statements, statement.closingComments) : emitStatementWithComments(statement)
 }
 
 // 各文（Statement）を文字列に変換する関数
@@ -20,78 +75,287 @@ function emitStatement(statement: Statement): string {
     // 式文の場合
     case SyntaxKind.ExpressionStatement:
       return emitExpression(statement.expression)
-    // 変数宣言の場合
+    // 変数宣言の場合は、宣言に使われたキーワード（var, let, const）をそのまま出力する
     case SyntaxKind.Var:
-      const typestring = statement.typename ? ": " + statement.name : ""
-      return `var ${statement.name.text}${typestring} = ${emitExpression(statement.initializer)}`
+      const typestring = statement.typename ? ": " + emitType(statement.typename) : ""
+      return `${statement.keyword} ${statement.name.text}${typestring} = ${emitExpression(statement.initializer)}`
     // 型定義の場合
     case SyntaxKind.TypeAlias:
-      return `type ${statement.name.text} = ${emitType(statement.typename)}`
+      const typeParameters = statement.typeParameters ? `<${statement.typeParameters.map(emitTypeParameter).join(", ")}>` : ""
+      return `type ${statement.name.text}${typeParameters} = ${emitType(statement.typename)}`
+    // インターフェース宣言の場合
+    case SyntaxKind.Interface:
+      const heritage = statement.heritage ? ` extends ${statement.heritage.map(h => h.text).join(", ")}` : ""
+      const properties = statement.properties.map(p => p.typename ? `${p.name.text}: ${emitType(p.typename)}` : p.name.text)
+      return `interface ${statement.name.text}${heritage} { ${properties.join("; ")} }`
+    // クラス宣言の場合は、フィールド・コンストラクタ・メソッドを1段深いインデントで出力する
+    // 要素の直前のコメントと、閉じ括弧 "}" の直前のコメントも出力する
+    case SyntaxKind.Class:
+      const classClosingComments = statement.closingComments ?? []
+      if (!statement.elements.length && !classClosingComments.length) {
+        return `class ${statement.name.text} {}`
+      }
+      indentLevel++
+      const elements = statement.elements.map(e => newLine() + emitLeadingComments(e.leadingComments) + emitClassElement(e)).join("")
+      const classClosing = classClosingComments.map(c => newLine() + c.text).join("")
+      indentLevel--
+      return `class ${statement.name.text} {${elements}${classClosing}${newLine()}}`
+    // 関数宣言の場合は、関数式と同じ形で出力する
+    case SyntaxKind.Function:
+      return emitExpression(statement)
+    // import 宣言の場合（例: import { a, type B, c as d } from "./x"）
+    case SyntaxKind.Import:
+      const specifiers = statement.specifiers.map(s => `${s.isTypeOnly ? "type " : ""}${s.propertyName ? `${s.propertyName.text} as ` : ""}${s.name.text}`)
+      return `import { ${specifiers.join(", ")} } from ${statement.moduleSpecifier.raw}`
     // return 文の場合
     case SyntaxKind.Return:
-      return `return ${emitExpression(statement.expression)}`
+      return statement.expression ? `return ${emitExpression(statement.expression)}` : "return"
+    // ブロックの場合
+    case SyntaxKind.Block:
+      return emitBlock(statement.statements, statement.closingComments)
+    // if文の場合
+    case SyntaxKind.If:
+      const elseString = statement.elseStatement ? ` else ${emitEmbeddedStatement(statement.elseStatement)}` : ""
+      return `if (${emitExpression(statement.expression)}) ${emitEmbeddedStatement(statement.thenStatement)}${elseString}`
+    // while文の場合
+    case SyntaxKind.While:
+      return `while (${emitExpression(statement.expression)}) ${emitEmbeddedStatement(statement.statement)}`
+    // do-while文の場合
+    case SyntaxKind.DoWhile:
+      return `do ${emitEmbeddedStatement(statement.statement)} while (${emitExpression(statement.expression)})`
+    // for文の場合
+    case SyntaxKind.For:
+      const initializer = !statement.initializer ? ""
+        : statement.initializer.kind === SyntaxKind.Var ? emitStatement(statement.initializer)
+        : emitExpression(statement.initializer)
+      const condition = statement.condition ? ` ${emitExpression(statement.condition)}` : ""
+      const incrementor = statement.incrementor ? ` ${emitExpression(statement.incrementor)}` : ""
+      return `for (${initializer};${condition};${incrementor}) ${emitEmbeddedStatement(statement.statement)}`
+    // break文の場合
+    case SyntaxKind.Break:
+      return "break"
+    // continue文の場合
+    case SyntaxKind.Continue:
+      return "continue"
     default:
       throw new Error(`Unhandled statement kind: ${statement}`)
   }
 }
 
+// クラスの要素（フィールド・コンストラクタ・メソッド）を文字列に変換する関数
+function emitClassElement(element: ClassElement): string {
+  switch (element.kind) {
+    // フィールドの場合
+    case SyntaxKind.PropertyDeclaration:
+      const typestring = element.typename ? ": " + emitType(element.typename) : ""
+      const initializer = element.initializer ? ` = ${emitExpression(element.initializer)}` : ""
+      return `${element.name.text}${typestring}${initializer};`
+    // コンストラクタの場合
+    case SyntaxKind.Constructor:
+      return `constructor(${element.parameters.map(emitParameter).join(", ")}) ${emitBlock(element.body, element.closingComments)}`
+    // メソッドの場合
+    case SyntaxKind.Method:
+      return `${element.name.text}(${element.parameters.map(emitParameter).join(", ")}) ${emitBlock(element.body, element.closingComments)}`
+  }
+}
+
 // 型を文字列に変換する関数
 function emitType(type: TypeNode): string {
   switch (type.kind) {
     // 識別子の場合
     case SyntaxKind.Identifier:
       return type.text
+    // 型引数を指定した型の参照の場合
+    case SyntaxKind.TypeReference:
+      return `${type.typeName.text}<${type.typeArguments.map(emitType).join(", ")}>`
     // オブジェクトリテラル型の場合
     case SyntaxKind.ObjectLiteralType:
       return "not done yet!"
     // 関数シグネチャの場合
     case SyntaxKind.Signature:
       return "not done yet!"
+    // 配列型の場合は、要素の型が関数型・ユニオン型・インターセクション型の場合に括弧で囲む（例: (string | number)[]）
+    case SyntaxKind.ArrayType:
+      const elementType = emitType(type.elementType)
+      return compositeTypeKinds.has(type.elementType.kind) ? `(${elementType})[]` : `${elementType}[]`
+    // タプル型の場合
+    case SyntaxKind.TupleType:
+      return `[${type.elementTypes.map(emitType).join(", ")}]`
+    // リテラル型の場合
+    case SyntaxKind.LiteralType:
+      return emitExpression(type.literal)
+    // ユニオン型の場合は、関数型を括弧で囲む
+    case SyntaxKind.UnionType:
+      return type.types.map(t => t.kind === SyntaxKind.Signature ? `(${emitType(t)})` : emitType(t)).join(" | ")
+    // インターセクション型の場合は、関数型・ユニオン型を括弧で囲む
+    case SyntaxKind.IntersectionType:
+      return type.types.map(t => t.kind === SyntaxKind.Signature || t.kind === SyntaxKind.UnionType ? `(${emitType(t)})` : emitType(t)).join(" & ")
     default:
       throw new Error(`Unknown type kind: ${type}`)
   }
 }
 
+// 配列型の要素にする場合に、括弧で囲む必要がある型の種類
+const compositeTypeKinds = new Set([SyntaxKind.Signature, SyntaxKind.UnionType, SyntaxKind.IntersectionType])
+
 // 式（Expression）を文字列に変換する関数
 function emitExpression(expression: Expression): string {
   switch (expression.kind) {
     // 識別子の場合
     case SyntaxKind.Identifier:
       return expression.text
-    // 数値リテラルの場合
+    // this の場合
+    case SyntaxKind.This:
+      return "this"
+    // 数値リテラルの場合は、元の表記（16進数や区切り文字など）を保って出力する
     case SyntaxKind.NumericLiteral:
-      return ""+expression.value
+      return expression.raw
+    // BigIntリテラルの場合
+    case SyntaxKind.BigIntLiteral:
+      return expression.raw
     // 文字列リテラルの場合
     case SyntaxKind.StringLiteral:
-      return expression.value
+      return expression.raw
+    // 真偽値の場合
+    case SyntaxKind.BooleanLiteral:
+      return String(expression.value)
+    // null の場合
+    case SyntaxKind.NullLiteral:
+      return "null"
+    // undefined の場合
+    case SyntaxKind.UndefinedLiteral:
+      return "undefined"
+    // テンプレートリテラルの場合
+    case SyntaxKind.TemplateExpression:
+      return `\`${expression.head.raw}${expression.templateSpans.map(span => `\${${emitExpression(span.expression)}}${span.literal.raw}`).join("")}\``
     // 代入式の場合
     case SyntaxKind.Assignment:
-      return `${expression.name.text} = ${emitExpression(expression.value)}`
-    // オブジェクトの場合
+      return `${emitExpression(expression.name)} = ${emitExpression(expression.value)}`
+    // オブジェクトの場合は、閉じ括弧 "}" の直前のコメントをプロパティの後ろに出力する（1行コメントの後ろは改行する）
     case SyntaxKind.Object:
-      return `{ ${expression.properties.map(emitProperty).join(", ")} }`
+      const objectClosing = (expression.closingComments ?? []).map(c => c.kind === CommentKind.SingleLine ? c.text + newLine() : c.text)
+      return `{ ${[expression.properties.map(emitProperty).join(", "), ...objectClosing].filter(Boolean).join(" ")} }`
+    // 配列リテラルの場合
+    case SyntaxKind.ArrayLiteral:
+      return `[${expression.elements.map(emitExpression).join(", ")}]`
     // 関数の場合
     case SyntaxKind.Function:
-      return `function ${expression.name ? expression.name.text : ""}(${expression.parameters.map(emitParameter).join(", ")}) {
-  ${expression.body.map(emitStatement).join(";\n    ")}
-}`
+      return `function ${expression.name ? expression.name.text : ""}(${expression.parameters.map(emitParameter).join(", ")}) ${emitBlock(expression.body, expression.closingComments)}`
+    // アロー関数の場合
+    // 本体がオブジェクトの場合は、ブロックと区別するために括弧で囲む（例: () => ({ a: 1 })）
+    case SyntaxKind.ArrowFunction:
+      const arrowBody = Array.isArray(expression.body) ? emitBlock(expression.body, expression.closingComments)
+        : expression.body.kind === SyntaxKind.Object ? `(${emitExpression(expression.body)})`
+        : emitExpression(expression.body)
+      return `(${expression.parameters.map(emitParameter).join(", ")}) => ${arrowBody}`
     // 関数呼び出しの場合
     case SyntaxKind.Call:
-      return `${emitExpression(expression.expression)}(${expression.arguments.map(emitExpression).join(", ")})`
+      return `${emitLeftHandSideExpression(expression.expression)}(${expression.arguments.map(emitExpression).join(", ")})`
+    // new 式の場合は、対象が関数呼び出しの場合に括弧で囲む（例: new (f())()）
+    case SyntaxKind.New:
+      const target = expression.expression.kind === SyntaxKind.Call ? `(${emitExpression(expression.expression)})` : emitLeftHandSideExpression(expression.expression)
+      return `new ${target}(${expression.arguments.map(emitExpression).join(", ")})`
+    // プロパティアクセスの場合
+    case SyntaxKind.PropertyAccess:
+      return `${emitLeftHandSideExpression(expression.expression)}.${expression.name.text}`
+    // 要素アクセスの場合
+    case SyntaxKind.ElementAccess:
+      return `${emitLeftHandSideExpression(expression.expression)}[${emitExpression(expression.argumentExpression)}]`
+    // 二項演算子の式の場合
+    case SyntaxKind.BinaryExpression:
+      return emitBinaryExpression(expression)
+    // 前置単項演算子の式の場合
+    // 被演算子が演算子の式の場合は括弧で囲み、"- -x" のように同じ記号が続く場合は "--" にならないよう空白を入れる
+    // typeof はキーワードのため、被演算子との間に空白を入れる
+    case SyntaxKind.PrefixUnaryExpression:
+      const operand = emitExpression(expression.operand)
+      if (getPrecedence(expression.operand) < unaryPrecedence) {
+        return `${expression.operator}(${operand})`
+      }
+      return (operand.startsWith("-") || operand.startsWith("+") || expression.operator === "typeof") ? `${expression.operator} ${operand}` : `${expression.operator}${operand}`
     default:
       throw new Error(`Unknown expression kind: ${expression}`)
   }
 }
 
+// 代入式・アロー関数の優先順位（すべての演算子より弱く結合する）
+const assignmentPrecedence = 0
+// 前置単項演算子の優先順位（すべての二項演算子より強く結合する）
+const unaryPrecedence = 100
+// 識別子・リテラル・関数呼び出しなど、括弧で囲む必要のない式の優先順位
+const primaryPrecedence = 101
+
+// 括弧が必要かどうかを判別するために、式の優先順位を取得する関数
+function getPrecedence(expression: Expression): number {
+  switch (expression.kind) {
+    case SyntaxKind.Assignment:
+    case SyntaxKind.ArrowFunction:
+      return assignmentPrecedence
+    case SyntaxKind.BinaryExpression:
+      return binaryOperatorPrecedence[expression.operator]
+    case SyntaxKind.PrefixUnaryExpression:
+      return unaryPrecedence
+    default:
+      return primaryPrecedence
+  }
+}
+
+// 関数呼び出し・プロパティアクセス・要素アクセスの対象となる式を文字列に変換する関数
+// 演算子の式や関数・オブジェクト・数値リテラルの場合は、対象を括弧で囲む（例: (a || b)(), ({ a: 1 }).a, (1).toFixed）
+function emitLeftHandSideExpression(expression: Expression): string {
+  const text = emitExpression(expression)
+  const needsParentheses = getPrecedence(expression) < primaryPrecedence
+    || expression.kind === SyntaxKind.Function || expression.kind === SyntaxKind.Object || expression.kind === SyntaxKind.NumericLiteral
+  return needsParentheses ? `(${text})` : text
+}
+
+// 二項演算子の式を、結合順を保つのに必要な箇所のみ括弧で囲んで文字列に変換する関数
+// 例）(a + b) * c は括弧を残し、a + (b * c) は a + b * c として出力する
+function emitBinaryExpression(expression: BinaryExpression): string {
+  const precedence = binaryOperatorPrecedence[expression.operator]
+  const isRightAssociative = expression.operator === "**"
+  const left = emitExpression(expression.left)
+  const right = emitExpression(expression.right)
+  // 左辺は、優先順位が低い場合と、右結合の演算子で優先順位が同じ場合に括弧が必要
+  // "**" の左辺に単項演算子の式を括弧なしで書くことはできないため、その場合も括弧で囲む
+  const leftNeedsParentheses = getPrecedence(expression.left) < precedence
+    || (isRightAssociative && (getPrecedence(expression.left) === precedence || expression.left.kind === SyntaxKind.PrefixUnaryExpression))
+    || needsParenthesesForCoalesce(expression, expression.left)
+  // 右辺は、優先順位が低い場合と、左結合の演算子で優先順位が同じ場合に括弧が必要
+  const rightNeedsParentheses = getPrecedence(expression.right) < precedence
+    || (!isRightAssociative && getPrecedence(expression.right) === precedence)
+    || needsParenthesesForCoalesce(expression, expression.right)
+  return `${leftNeedsParentheses ? `(${left})` : left} ${expression.operator} ${rightNeedsParentheses ? `(${right})` : right}`
+}
+
+// "??" と "&&"・"||" は括弧なしで混在させることができないため、括弧が必要かどうかを判別する関数
+function needsParenthesesForCoalesce(parent: BinaryExpression, child: Expression): boolean {
+  if (child.kind !== SyntaxKind.BinaryExpression) {
+    return false
+  }
+  const isLogical = (operator: string) => operator === "&&" || operator === "||"
+  return (parent.operator === "??" && isLogical(child.operator)) || (isLogical(parent.operator) && child.operator === "??")
+}
+
 // オブジェクトのプロパティを文字列に変換する関数
 function emitProperty(property: PropertyAssignment): string {
-  return `${property.name.text}: ${emitExpression(property.initializer)}`
+  return `${emitLeadingComments(property.leadingComments)}${property.name.text}: ${emitExpression(property.initializer)}`
+}
+
+// 型パラメータを文字列に変換する関数
+// 例）T, T extends { length: number }, T = string
+function emitTypeParameter(typeParameter: TypeParameter): string {
+  const constraint = typeParameter.constraint ? ` extends ${emitType(typeParameter.constraint)}` : ""
+  const defaultType = typeParameter.default ? ` = ${emitType(typeParameter.default)}` : ""
+  return `${typeParameter.name.text}${constraint}${defaultType}`
 }
 
 // 関数の引数を文字列に変換する関数
+// 例）x?: number, x = 0, ...rest: number[]
 function emitParameter(parameter: Parameter): string {
-  if (parameter.typename) {
-    return `${parameter.name.text}: ${emitType(parameter.typename)}`
-  }
-  return parameter.name.text
+  const rest = parameter.isRest ? "..." : ""
+  const question = parameter.isOptional ? "?" : ""
+  const typestring = parameter.typename ? `: ${emitType(parameter.typename)}` : ""
+  const initializer = parameter.initializer ? ` = ${emitExpression(parameter.initializer)}` : ""
+  return `${rest}${parameter.name.text}${question}${typestring}${initializer}`
 }
@@ -1,9 +1,190 @@
-import { Node, Error } from './parser/type.js';
+import { DiagnosticCategory, SyntaxKind } from './parser/type.js';
+import type { Span, Diagnostic, DiagnosticMessage, DiagnosticRelatedInformation, Node } from './parser/type.js';
+import { computeLineStarts, getLineAndColumn } from './lineMap.js';
 
-export const errors: Map<number,Error> = new Map()
-export function error(location: Node | number, message: string) {
-    const pos = typeof location === 'number' ? location : location.pos
-    if (!errors.has(pos)) {
-        errors.set(pos, { pos, message })
+// 1回のコンパイルで発生したエラーを集める値の型
+export type DiagnosticCollection = {
+    add(diagnostic: Diagnostic): void
+    // ファイル名・位置の順に並べ、同じエラーを1件にまとめた一覧を返す
+    getDiagnostics(): Diagnostic[]
+}
+
+// エラーの報告先（コンパイルを開始する際に、そのコンパイルのエラーを集める DiagnosticCollection を設定する）
+let currentDiagnostics: DiagnosticCollection | undefined
+// 現在解析しているファイル名（scanner・parser のように、ASTの親をたどってファイル名がわからない場合に使う）
+// checker の解析中は、型チェックしているモジュールのファイル名とする（import 元のモジュールの宣言も解析するため、ノードの親をたどれる場合はそちらを優先する）
+let currentFileName: string | undefined
+
+// エラーを集める DiagnosticCollection を作成する関数（コンパイルごとに作成し、前のコンパイルのエラーが残らないようにする）
+export function createDiagnosticCollection(): DiagnosticCollection {
+    const diagnostics: Diagnostic[] = []
+    return {
+        add: diagnostic => diagnostics.push(diagnostic),
+        getDiagnostics: () => sortAndDeduplicateDiagnostics(diagnostics),
+    }
+}
+// scanner・parser・binder・checker が報告するエラーの報告先を設定する関数
+export function setDiagnosticCollection(diagnostics: DiagnosticCollection | undefined) {
+    currentDiagnostics = diagnostics
+}
+// scanner・parser のように、ASTがまだ完成していない段階でエラーが発生するファイルを設定する関数
+export function setCurrentFileName(fileName: string | undefined) {
+    currentFileName = fileName
+}
+
+// メッセージの {0}, {1}... を引数に置き換える関数
+// 例）formatMessage(Diagnostics.Could_not_resolve_0, ["x"]) は "Could not resolve x"
+export function formatMessage(message: DiagnosticMessage, args: (string | number)[]): string {
+    return message.message.replace(/\{(\d+)\}/g, (_, index: string) => String(args[Number(index)]))
+}
+
+// エラーを報告する関数（報告したエラーを返すため、理由の詳細や関連する位置を後から付けることができる）
+export function error(location: Span | number, message: DiagnosticMessage, ...args: (string | number)[]): Diagnostic {
+    if (!currentDiagnostics) {
+        throw new Error("Diagnostics can only be reported during a compilation.")
+    }
+    const diagnostic: Diagnostic = {
+        code: message.code,
+        category: message.category,
+        message: formatMessage(message, args),
+        ...createDiagnosticLocation(location),
     }
+    currentDiagnostics.add(diagnostic)
+    return diagnostic
+}
+
+// エラーに、理由の詳細（外側から順に、1つ前の理由をさらに詳しく説明するメッセージ）を付ける関数
+export function addMessageChain(diagnostic: Diagnostic, messageChain: string[]) {
+    if (messageChain.length) {
+        diagnostic.messageChain = messageChain
+    }
+}
+
+// エラーに、関連する別の位置の情報を付ける関数
+// 例）重複した宣言のエラーに、"'x' was first declared here." と最初の宣言の位置を付ける
+export function addRelatedInformation(diagnostic: Diagnostic, location: Span, message: DiagnosticMessage, ...args: (string | number)[]) {
+    const related: DiagnosticRelatedInformation = { ...createDiagnosticLocation(location), message: formatMessage(message, args) }
+    diagnostic.relatedInformation = [...diagnostic.relatedInformation ?? [], related]
+}
+
+// エラーの位置を、ファイル名・開始位置・長さに変換する関数
+// ノードの親をたどってもファイル名がわからない場合（親が設定されていない位置など）は、現在解析しているファイルのエラーとする
+function createDiagnosticLocation(location: Span | number): { fileName?: string, start: number, length: number } {
+    const start = typeof location === 'number' ? location : location.start
+    const end = typeof location === 'number' ? location : location.end
+    const fileName = (typeof location !== 'number' && getFileNameOfNode(location)) || currentFileName
+    return fileName === undefined ? { start, length: end - start } : { fileName, start, length: end - start }
+}
+
+// ノードの親をたどって、ノードが含まれるファイル名を取得する関数
+function getFileNameOfNode(location: Span): string | undefined {
+    let node = location as Partial<Node>
+    while (node) {
+        if (node.kind === SyntaxKind.Module) return node.fileName
+        node = node.parent as Partial<Node>
+    }
+}
+
+// エラーをファイル名・開始位置・長さ・番号・メッセージの順に並べ、すべてが同じエラーを1件にまとめる関数
+// 関数の本体を2回解析する場合のように、同じ位置で同じエラーを報告することがある
+function sortAndDeduplicateDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+    const sorted = [...diagnostics].sort(compareDiagnostics)
+    return sorted.filter((d, i) => i === 0 || compareDiagnostics(sorted[i - 1], d) !== 0)
+}
+
+// 2つのエラーの並び順を比較する関数
+function compareDiagnostics(a: Diagnostic, b: Diagnostic): number {
+    return compareStrings(a.fileName ?? "", b.fileName ?? "")
+        || a.start - b.start
+        || a.length - b.length
+        || a.code - b.code
+        || compareStrings(a.message, b.message)
+}
+
+function compareStrings(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0
+}
+
+// エラーの表示に使う、ファイルのソースコードと表示用のファイル名を取得する値の型
+export type DiagnosticFormatHost = {
+    getSourceText(fileName: string): string | undefined
+    getDisplayFileName(fileName: string): string
+}
+
+// エラーを "file(line,col): error 2304: message" の形式に変換し、エラー箇所を "^" で示したコードフレームを付ける関数
+// エラーの理由の詳細（messageChain）は、1段ずつ字下げした行としてメッセージの後ろに付け、関連する位置はコードフレームの後ろに付ける
+// ファイルが見つからない場合のように、ソースコードがないエラーはコードフレームを付けない
+// 例）
+// input.ts(1,9): error 2304: Could not resolve x
+//
+// 1 var y = x
+//           ^
+export function formatDiagnostic(d: Diagnostic, host: DiagnosticFormatHost): string {
+    const category = DiagnosticCategory[d.category].toLowerCase()
+    const code = d.fileName === undefined ? undefined : host.getSourceText(d.fileName)
+    const lines = [
+        `${formatLocation(d, host)}: ${category} ${d.code}: ${d.message}`,
+        ...(d.messageChain ?? []).map((m, i) => `${"  ".repeat(i + 1)}${m}`),
+    ]
+    if (code !== undefined) {
+        lines.push("", ...formatCodeFrame(code, d.start, d.length))
+    }
+    for (const related of d.relatedInformation ?? []) {
+        lines.push(`  ${formatLocation(related, host)}: ${related.message}`)
+    }
+    return lines.join("\n")
+}
+
+// エラーの一覧を、CI などのツールで読み込むための JSON に変換する関数
+// 位置は開始位置・長さに加えて、1始まりの行番号・列番号でも表す
+export function formatDiagnosticsAsJson(diagnostics: Diagnostic[], host: DiagnosticFormatHost): string {
+    const toJson = (d: Diagnostic) => ({
+        ...toJsonLocation(d, host),
+        code: d.code,
+        category: DiagnosticCategory[d.category].toLowerCase(),
+        message: d.message,
+        messageChain: d.messageChain,
+        relatedInformation: d.relatedInformation?.map(r => ({ ...toJsonLocation(r, host), message: r.message })),
+    })
+    return JSON.stringify(diagnostics.map(toJson), undefined, 2)
+}
+
+// エラーの位置を、表示用のファイル名と行番号・列番号を含む値に変換する関数
+function toJsonLocation(location: { fileName?: string, start: number, length: number }, host: DiagnosticFormatHost) {
+    const code = location.fileName === undefined ? undefined : host.getSourceText(location.fileName)
+    const lineAndColumn = code === undefined ? undefined : getLineAndColumn(computeLineStarts(code), location.start)
+    return {
+        fileName: location.fileName === undefined ? undefined : host.getDisplayFileName(location.fileName),
+        ...lineAndColumn,
+        start: location.start,
+        length: location.length,
+    }
+}
+
+// エラーの位置を "file(line,col)" の形式に変換する関数（ソースコードがない場合はファイル名のみとする）
+function formatLocation(location: { fileName?: string, start: number }, host: DiagnosticFormatHost): string {
+    const fileName = host.getDisplayFileName(location.fileName ?? "")
+    const code = location.fileName === undefined ? undefined : host.getSourceText(location.fileName)
+    if (code === undefined) {
+        return fileName
+    }
+    const { line, column } = getLineAndColumn(computeLineStarts(code), location.start)
+    return `${fileName}(${line},${column})`
+}
+
+// エラー箇所の行と、エラー箇所を "^" で示す行からなるコードフレームを作成する関数
+function formatCodeFrame(code: string, start: number, length: number): string[] {
+    const lineStarts = computeLineStarts(code)
+    const { line, column } = getLineAndColumn(lineStarts, start)
+    const lineStart = lineStarts[line - 1]
+    const lineText = code.slice(lineStart, line < lineStarts.length ? lineStarts[line] - 1 : code.length).replace(/\r$/, "")
+    // 複数行にまたがるエラーは、開始行の末尾までを示す
+    const width = Math.max(1, Math.min(start + length, lineStart + lineText.length) - start)
+    const gutter = String(line)
+    // タブ文字の位置がずれないように、エラー箇所の前にあるタブはそのまま残す
+    const indent = lineText.slice(0, column - 1).replace(/[^\t]/g, " ")
+    return [
+        `${gutter} ${lineText}`,
+        `${" ".repeat(gutter.length)} ${indent}${"^".repeat(width)}`,
+    ]
 }
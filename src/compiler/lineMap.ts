@@ -0,0 +1,34 @@
+// 1始まりの行番号・列番号を表す型
+export type LineAndColumn = {
+  line: number
+  column: number
+}
+
+// ソースコードの各行の開始位置を計算する関数
+// 例）"a\nbc\n" の場合は [0, 2, 5] を返す
+export function computeLineStarts(code: string): number[] {
+  const lineStarts = [0]
+  for (let position = 0; position < code.length; position++) {
+    if (code.charAt(position) === "\n") {
+      lineStarts.push(position + 1)
+    }
+  }
+  return lineStarts
+}
+
+// ソースコード内の位置を、1始まりの行番号・列番号に変換する関数
+// 行の開始位置の一覧（computeLineStarts の結果）を二分探索して、位置が含まれる行を探す
+export function getLineAndColumn(lineStarts: number[], position: number): LineAndColumn {
+  let low = 0
+  let high = lineStarts.length - 1
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (lineStarts[middle] <= position) {
+      low = middle
+    }
+    else {
+      high = middle - 1
+    }
+  }
+  return { line: low + 1, column: position - lineStarts[low] + 1 }
+}
@@ -1,7 +1,74 @@
 import { Token } from "../scanner/type.js";
-import type { Scanner } from "../scanner/type.js";
-import { SyntaxKind, Statement, Identifier, Expression, Module, PropertyAssignment, PropertyDeclaration, Object, ObjectLiteralType, Parameter, TypeNode, SignatureDeclaration, TypeParameter, Function } from './type.js'
-import { error } from '../error.js'
+import { tokenToString } from "../scanner/index.js";
+import type { Scanner, Comment } from "../scanner/type.js";
+import { SyntaxKind, Statement, Var, VarKeyword, Identifier, Expression, Module, PropertyAssignment, PropertyDeclaration, Object, ObjectLiteralType, Interface, Class, ClassElement, Import, ImportSpecifier, StringLiteral, Parameter, TypeNode, SignatureDeclaration, TypeParameter, Function, ArrowFunction, TemplateExpression, TemplateLiteralPart, TemplateSpan, BinaryOperator, PrefixUnaryOperator, AssignmentTarget, LiteralTypeNode, DiagnosticMessage, Span, Location } from './type.js'
+import { error, setCurrentFileName } from '../error.js'
+import { Diagnostics } from '../diagnosticMessages.js'
+
+// 識別子またはリテラルとして解析できるトークン
+const identifierOrLiteralTokens = new Set([
+  Token.Identifier,
+  Token.NumericLiteral,
+  Token.BigIntLiteral,
+  Token.StringLiteral,
+  Token.NoSubstitutionTemplateLiteral,
+  Token.TemplateHead,
+  Token.True,
+  Token.False,
+  Token.Null,
+  Token.Undefined,
+])
+// 二項演算子の優先順位（値が大きいほど強く結合する）
+// emitter でも、括弧が必要かどうかの判別に使う
+export const binaryOperatorPrecedence: Record<BinaryOperator, number> = {
+  "??": 1,
+  "||": 2,
+  "&&": 3,
+  "|": 4,
+  "^": 5,
+  "&": 6,
+  "==": 7, "!=": 7, "===": 7, "!==": 7,
+  "<": 8, ">": 8, "<=": 8, ">=": 8,
+  "<<": 9, ">>": 9, ">>>": 9,
+  "+": 10, "-": 10,
+  "*": 11, "/": 11, "%": 11,
+  "**": 12,
+}
+// 二項演算子を表すトークン
+const binaryOperatorTokens = new Set([
+  Token.Plus, Token.Minus, Token.Asterisk, Token.Slash, Token.Percent, Token.AsteriskAsterisk,
+  Token.LessThan, Token.GreaterThan, Token.LessThanEquals, Token.GreaterThanEquals,
+  Token.EqualsEquals, Token.ExclamationEquals, Token.EqualsEqualsEquals, Token.ExclamationEqualsEquals,
+  Token.LessThanLessThan, Token.GreaterThanGreaterThan, Token.GreaterThanGreaterThanGreaterThan,
+  Token.Ampersand, Token.Bar, Token.Caret,
+  Token.AmpersandAmpersand, Token.BarBar, Token.QuestionQuestion,
+])
+// 前置単項演算子を表すトークン
+const prefixUnaryOperatorTokens = new Set([Token.Exclamation, Token.Minus, Token.Plus, Token.Tilde, Token.TypeOf])
+// 変数宣言の開始を表すトークン
+const varKeywordTokens = new Set([Token.Var, Token.Let, Token.Const])
+// 型引数（例: f<number>(1) の <number>）の中に書くことができるトークン
+// "<" が比較演算子か型引数の開始かを先読みで判別する際に使う
+const typeArgumentTokens = new Set([
+  Token.Identifier, Token.NumericLiteral, Token.StringLiteral, Token.Comma, Token.Colon, Token.Arrow,
+  Token.OpenBrace, Token.CloseBrace, Token.OpenParen, Token.CloseParen, Token.LessThan, Token.GreaterThan,
+  Token.OpenBracket, Token.CloseBracket, Token.Bar, Token.Ampersand, Token.Minus, Token.BigIntLiteral,
+  Token.True, Token.False, Token.Null, Token.Undefined,
+])
+// アロー関数・関数型の引数の中に書くことができるトークン
+// 型として書けるトークンに加えて、省略可能な引数の "?"、残余引数の "..."、デフォルト値の "=" とその式に使うトークンを含む
+// "(" が括弧で囲まれた式・型か、アロー関数・関数型の開始かを先読みで判別する際に使う
+const parameterListTokens = new Set([
+  ...typeArgumentTokens,
+  Token.Question, Token.DotDotDot, Token.Equals, Token.Dot, Token.This,
+  Token.Plus, Token.Asterisk, Token.Slash, Token.Percent, Token.Exclamation,
+])
+// リテラル型として解析できるトークン
+const literalTypeTokens = new Set([Token.StringLiteral, Token.NumericLiteral, Token.BigIntLiteral, Token.True, Token.False, Token.Null, Token.Undefined])
+// 文の開始を表すトークン（構文エラーからの回復で、読み飛ばしを止める位置として使う）
+const statementStartTokens = new Set([Token.Var, Token.Let, Token.Const, Token.Type, Token.Interface, Token.Class, Token.Function, Token.Export, Token.Import, Token.Return, Token.If, Token.While, Token.Do, Token.For, Token.Break, Token.Continue])
+// 末尾がブロックや別の文で終わる文（文の後ろに改行やセミコロンがなくても、次の文を続けて書くことができる）
+const blockLikeStatementKinds = new Set([SyntaxKind.Interface, SyntaxKind.Class, SyntaxKind.Function, SyntaxKind.Block, SyntaxKind.If, SyntaxKind.While, SyntaxKind.DoWhile, SyntaxKind.For])
 
 /**
  * [全体像]
@@ -9,76 +76,516 @@ import { error } from '../error.js'
  * 2. ソースコードは文（statement）単位で parseTerminated によって解析され、各文に応じたASTノードが構築される
  * 3. 文ごとの構文解析では、変数宣言、return文、型定義、式文などに応じて parseStatement が適切なノードを生成する
  * 4. 式解析は parseExpression や parseExpressionBelowCall により、リテラル、関数呼び出し、オブジェクト、代入式などを判別してノード化する
- * 5. ASTノードは pos や parent を保持し、トークン処理には parseExpected や tryParseToken などの補助関数が使われることで、エラー処理と木構造の整合性が保たれる
+ * 5. 構文エラーがあった場合は (missing) の識別子を補ったり、次の文の区切りまでトークンを読み飛ばしたりして、例外を投げずに解析を続ける
+ * 6. ASTノードは start・end（ソースコード内の範囲）や parent を保持し、トークン処理には parseExpected や tryParseToken などの補助関数が使われることで、エラー処理と木構造の整合性が保たれる
  */
-export const parser = (scanner: Scanner): Module => {
+export const parser = (scanner: Scanner, fileName = "input.ts"): Module => {
+  // 構文解析中のエラーは、解析しているファイルのエラーとして記録する
+  setCurrentFileName(fileName)
+  // 直前に報告した構文エラーの開始位置
+  let lastErrorStart = -1
+  // ノードに紐づけたコメントの終了位置（同じコメントを複数のノードに紐づけないようにする）
+  let attachedCommentsEnd = -1
+  // 直前に解析した一覧（parseTerminated）の終端のトークンの直前にあったコメント
+  let closingComments: Comment[] = []
+  // 括弧で囲まれていた式（ASTには括弧を残さないため、括弧が必要な組み合わせのチェックに使う）
+  const parenthesizedExpressions = new Set<Expression>()
   // 解析を開始する
   scanner.scan()
 
   return parseModule()
 
+  // 構文エラーを報告する関数
+  // 1つの誤りから同じ位置で続けて構文エラーが発生することが多いため、直前の構文エラーと同じ位置のエラーは報告しない
+  function parseError(location: Span, message: DiagnosticMessage, ...args: (string | number)[]) {
+    if (location.start !== lastErrorStart) {
+      lastErrorStart = location.start
+      error(location, message, ...args)
+    }
+  }
+
+  // まだノードに紐づけていないコメントを取得し、紐づけたものとして記録する関数
+  function takeComments(comments: Comment[]): Comment[] {
+    const untaken = comments.filter(c => c.start >= attachedCommentsEnd)
+    if (untaken.length) {
+      attachedCommentsEnd = untaken[untaken.length - 1].end
+    }
+    return untaken
+  }
+
+  // 現在のトークンの直前にある、まだノードに紐づけていないコメントを取得する関数
+  // 前のトークンと同じ行にあるコメントも含める（例: if (a) { // note の "// note" は、"{" の後ろの最初の文のコメントとする）
+  function takeCommentsBeforeToken(): Comment[] {
+    return takeComments([...scanner.trailingComments(), ...scanner.leadingComments()])
+  }
+
+  // 直前に解析した本体の閉じ括弧 "}" の直前にあったコメントを、本体を持つノードに紐づける関数
+  // 本体を解析した直後（他の一覧を解析する前）に呼び出す
+  // 例）function f() { g() // end of body } の "// end of body" を関数に紐づける
+  function setClosingComments<T extends Location>(node: T): T {
+    if (closingComments.length) {
+      node.closingComments = closingComments
+    }
+    return node
+  }
+
   // プログラム全体を解析する関数
   // プログラム終了を示す EOF まで解析を行う
   function parseModule(): Module {
     const statements = parseTerminated(parseStatement, Token.Semicolon, Token.EOF)
-    return { kind: SyntaxKind.Module, statements, locals: new Map(), pos: 0, parent: undefined! }
+    const module: Module = { kind: SyntaxKind.Module, fileName, statements, locals: new Map(), exports: new Map(), start: 0, end: scanner.position(), parent: undefined! }
+    // ファイルの末尾にあるコメントは、モジュールの後続コメントとして保持する
+    if (closingComments.length) {
+      module.trailingComments = closingComments
+    }
+    return module
   }
 
-  // コードの文を構成する要素の解析する関数（var, Type, return）
+  // 文を解析し、文の前後にあるコメントを文に紐づける関数
+  // 文の直前のコメントを leadingComments、文末（セミコロンを含む）と同じ行のコメントを trailingComments とする
   function parseStatement(): Statement {
-    const pos = scanner.position()
+    const leadingComments = takeCommentsBeforeToken()
+    const start = scanner.tokenStart()
+    const statement = parseStatementWorker()
+    // 文の解析でトークンが1つも進まなかった場合は、文として解析できないトークンを読み飛ばす
+    if (scanner.tokenStart() === start) {
+      parseError({ start, end: scanner.position() }, Diagnostics.Declaration_or_statement_expected)
+      scanner.scan()
+    }
+    // 文の後ろに余計なトークンが続いている場合は、次の文の区切りまでトークンを読み飛ばす
+    else if (!blockLikeStatementKinds.has(statement.kind) && !isStatementEnd()) {
+      parseError({ start: scanner.tokenStart(), end: scanner.position() }, Diagnostics._0_expected, tokenToString(Token.Semicolon)!)
+      skipToStatementBoundary()
+    }
+    tryParseToken(Token.Semicolon)
+    const trailingComments = takeComments(scanner.trailingComments())
+    // 文の終了位置には、文末のセミコロンを含める
+    statement.end = getNodeEnd()
+    if (leadingComments.length) {
+      statement.leadingComments = leadingComments
+    }
+    if (trailingComments.length) {
+      statement.trailingComments = trailingComments
+    }
+    return statement
+  }
+
+  // コードの文を構成する要素の解析する関数（var, let, const, Type, interface, class, function, export, import, return, if, while, do, for, break, continue, ブロック）
+  function parseStatementWorker(): Statement {
+    const start = scanner.tokenStart()
     // 現在の解析位置からどのように解析を行うかを判別する
     switch (scanner.token()) {
-      // 変数宣言を解析する（var）
-      case Token.Var: {
+      // 変数宣言を解析する（var, let, const）
+      case Token.Var:
+      case Token.Let:
+      case Token.Const:
+        return parseVar()
+      // ブロックを解析する（{ ... }）
+      // 文の先頭の "{" は、オブジェクトではなくブロックとして扱う
+      case Token.OpenBrace: {
+        const statements = parseBlock()
+        return setClosingComments({ kind: SyntaxKind.Block, statements, locals: new Map(), start, end: getNodeEnd(), parent: undefined! })
+      }
+      // if文を解析する（if (...) ... else ...）
+      case Token.If: {
         scanner.scan()
-        const name = parseIdentifier()
-        const typename = tryParseTypeAnnotation()
-        parseExpected(Token.Equals)
-        const initializer = parseExpression()
-        return { kind: SyntaxKind.Var, name, typename, initializer, pos, symbol: undefined!, parent: undefined! }
+        const expression = parseParenthesizedCondition()
+        const thenStatement = parseStatement()
+        const elseStatement = tryParseToken(Token.Else) ? parseStatement() : undefined
+        return { kind: SyntaxKind.If, expression, thenStatement, elseStatement, start, end: getNodeEnd(), parent: undefined! }
+      }
+      // while文を解析する（while (...) ...）
+      case Token.While: {
+        scanner.scan()
+        const expression = parseParenthesizedCondition()
+        const statement = parseStatement()
+        return { kind: SyntaxKind.While, expression, statement, start, end: getNodeEnd(), parent: undefined! }
+      }
+      // do-while文を解析する（do ... while (...)）
+      case Token.Do: {
+        scanner.scan()
+        const statement = parseStatement()
+        parseExpected(Token.While)
+        const expression = parseParenthesizedCondition()
+        return { kind: SyntaxKind.DoWhile, statement, expression, start, end: getNodeEnd(), parent: undefined! }
+      }
+      // for文を解析する（for (初期化; 条件; 更新) ...）
+      // 初期化・条件・更新はそれぞれ省略することができる
+      case Token.For: {
+        scanner.scan()
+        parseExpected(Token.OpenParen)
+        const initializer = scanner.token() === Token.Semicolon ? undefined
+          : varKeywordTokens.has(scanner.token()) ? parseVar()
+          : parseExpression()
+        parseExpected(Token.Semicolon)
+        const condition = scanner.token() === Token.Semicolon ? undefined : parseExpression()
+        parseExpected(Token.Semicolon)
+        const incrementor = scanner.token() === Token.CloseParen ? undefined : parseExpression()
+        parseExpected(Token.CloseParen)
+        const statement = parseStatement()
+        return { kind: SyntaxKind.For, initializer, condition, incrementor, statement, locals: new Map(), start, end: getNodeEnd(), parent: undefined! }
       }
+      // break文を解析する（break）
+      case Token.Break:
+        scanner.scan()
+        return { kind: SyntaxKind.Break, start, end: getNodeEnd(), parent: undefined! }
+      // continue文を解析する（continue）
+      case Token.Continue:
+        scanner.scan()
+        return { kind: SyntaxKind.Continue, start, end: getNodeEnd(), parent: undefined! }
       // 型宣言を解析する（type）
+      // "<" が見つかった場合、ジェネリック型として解析を行う（例: type Box<T> = { value: T }）
       case Token.Type: {
         scanner.scan()
         const name = parseIdentifier()
+        const typeParameters = tryParseToken(Token.LessThan) ? parseTerminated(parseTypeParameter, Token.Comma, Token.GreaterThan) : undefined
         parseExpected(Token.Equals)
         const typename = parseType()
-        return { kind: SyntaxKind.TypeAlias, name, typename, pos, symbol: undefined!, parent: undefined! }
+        return { kind: SyntaxKind.TypeAlias, name, typeParameters, typename, locals: new Map(), start, end: getNodeEnd(), symbol: undefined!, parent: undefined! }
       }
+      // インターフェース宣言を解析する（interface）
+      case Token.Interface:
+        return parseInterface()
+      // クラス宣言を解析する（class）
+      case Token.Class:
+        return parseClass()
+      // 関数宣言を解析する（function）
+      case Token.Function:
+        scanner.scan()
+        return parseFunction(start, true)
+      // export された宣言を解析する（例: export var x = 1, export type T = number）
+      // export をつけることができるのは変数・型・インターフェース・クラス・関数の宣言のみ
+      case Token.Export: {
+        scanner.scan()
+        const declaration = parseStatementWorker()
+        if (declaration.kind === SyntaxKind.Var || declaration.kind === SyntaxKind.TypeAlias || declaration.kind === SyntaxKind.Interface || declaration.kind === SyntaxKind.Class || declaration.kind === SyntaxKind.Function) {
+          declaration.isExported = true
+          declaration.start = start
+        }
+        else {
+          parseError({ start, end: start + "export".length }, Diagnostics.Modifiers_cannot_appear_here)
+        }
+        return declaration
+      }
+      // import 宣言を解析する（import）
+      case Token.Import:
+        return parseImport()
       // return文を解析する（return）
+      // 文の終わりが続く場合は、戻り値の式を省略したものとする
       case Token.Return: {
         scanner.scan()
-        return { kind: SyntaxKind.Return, expression: parseExpression(), pos, parent: undefined! }
+        const expression = isStatementEnd() ? undefined : parseExpression()
+        return { kind: SyntaxKind.Return, expression, start, end: getNodeEnd(), parent: undefined! }
       }
       // その他、オブジェクト・関数・識別子・リテラル（文字列・数値）などを解析する
       default:
-        return { kind: SyntaxKind.ExpressionStatement, expression: parseExpression(), pos, parent: undefined! }
+        return { kind: SyntaxKind.ExpressionStatement, expression: parseExpression(), start, end: getNodeEnd(), parent: undefined! }
     }
   }
 
-  // オブジェクト・関数・識別子・リテラル（文字列・数値）を解析し、加えて関数呼び出しを解析する関数
-  function parseExpression(): Expression {
-    // オブジェクト・関数・識別子・リテラル（文字列・数値）を開始する
-    const expression = parseExpressionBelowCall()
+  // インターフェース宣言を解析する関数
+  // 例）interface Point3D extends Point { z: number }
+  function parseInterface(): Interface {
+    const start = scanner.tokenStart()
+    parseExpected(Token.Interface)
+    const name = parseIdentifier()
+    // "extends" が見つかった場合、"," で区切られた継承元のインターフェース名を解析する
+    let heritage: Identifier[] | undefined
+    if (tryParseToken(Token.Extends)) {
+      heritage = [parseIdentifier()]
+      while (tryParseToken(Token.Comma)) {
+        heritage.push(parseIdentifier())
+      }
+    }
+    parseExpected(Token.OpenBrace)
+    const properties = parseTerminated(parsePropertyDeclaration, [Token.Comma, Token.Semicolon], Token.CloseBrace)
+    return { kind: SyntaxKind.Interface, name, heritage, properties, members: new Map(), start, end: getNodeEnd(), symbol: undefined!, parent: undefined! }
+  }
 
-    // 通常の関数呼び出しを解析する（関数を実行している箇所を指す）
-    // 例）add(1, 2);
-    if (tryParseToken(Token.OpenParen)) {
-      return { kind: SyntaxKind.Call, expression, arguments: parseTerminated(parseExpression, Token.Comma, Token.CloseParen), pos: expression.pos, parent: undefined! }
+  // import 宣言を解析する関数
+  // "import type { ... }" の場合は、すべての名前を型のみの import とする
+  // 例）import { a, type B, c as d } from "./x"
+  function parseImport(): Import {
+    const start = scanner.tokenStart()
+    parseExpected(Token.Import)
+    const isTypeOnly = tryParseToken(Token.Type)
+    parseExpected(Token.OpenBrace)
+    const specifiers = parseTerminated(parseImportSpecifier, Token.Comma, Token.CloseBrace)
+    if (isTypeOnly) {
+      specifiers.forEach(specifier => specifier.isTypeOnly = true)
     }
-    // ジェネリック型の関数呼び出しを解析する（関数を実行している箇所を指す）
-    else if (tryParseToken(Token.LessThan)) {
-      const typeArguments = parseTerminated(parseType, Token.Comma, Token.GreaterThan)
+    if (!tryParseContextualKeyword("from")) {
+      parseError({ start: scanner.tokenStart(), end: scanner.position() }, Diagnostics.From_expected)
+    }
+    const moduleSpecifier = parseModuleSpecifier()
+    return { kind: SyntaxKind.Import, specifiers, moduleSpecifier, start, end: getNodeEnd(), parent: undefined! }
+  }
+
+  // import する名前を解析する関数
+  // 例）a, type B, c as d
+  function parseImportSpecifier(): ImportSpecifier {
+    const start = scanner.tokenStart()
+    const isTypeOnly = tryParseToken(Token.Type) || undefined
+    let name = parseIdentifier()
+    let propertyName: Identifier | undefined
+    // "as" が見つかった場合、前の名前を import 元の名前とし、後ろの名前をこのファイルで使う名前とする
+    if (tryParseContextualKeyword("as")) {
+      propertyName = name
+      name = parseIdentifier()
+    }
+    return { kind: SyntaxKind.ImportSpecifier, isTypeOnly, propertyName, name, start, end: getNodeEnd(), symbol: undefined!, parent: undefined! }
+  }
+
+  // import 元のモジュール名（文字列リテラル）を解析する関数
+  // 文字列リテラル以外の場合は、空のモジュール名を補って解析を続ける
+  function parseModuleSpecifier(): StringLiteral {
+    const start = scanner.tokenStart()
+    if (scanner.token() !== Token.StringLiteral) {
+      parseError({ start, end: scanner.position() }, Diagnostics.String_literal_expected)
+      return { kind: SyntaxKind.StringLiteral, value: "", raw: '""', start, end: start, parent: undefined! }
+    }
+    return parseIdentifierOrLiteral() as StringLiteral
+  }
+
+  // クラス宣言を解析する関数
+  // 例）class Point { x: number; constructor(x: number) { this.x = x } norm(): number { return this.x } }
+  function parseClass(): Class {
+    const start = scanner.tokenStart()
+    parseExpected(Token.Class)
+    const name = parseIdentifier()
+    parseExpected(Token.OpenBrace)
+    const elements = parseTerminated(parseClassElement, Token.Semicolon, Token.CloseBrace)
+    return setClosingComments({ kind: SyntaxKind.Class, name, elements, members: new Map(), start, end: getNodeEnd(), symbol: undefined!, parent: undefined! })
+  }
+
+  // クラスの本体の要素を解析し、要素の直前にあるコメントを要素に紐づける関数
+  function parseClassElement(): ClassElement {
+    const leadingComments = takeCommentsBeforeToken()
+    const element = parseClassElementWorker()
+    if (leadingComments.length) {
+      element.leadingComments = leadingComments
+    }
+    return element
+  }
+
+  // クラスの本体の要素（フィールド・コンストラクタ・メソッド）を解析する関数
+  // 名前の後ろに "(" か "<" が続く場合はメソッドとし、その名前が constructor の場合はコンストラクタとする
+  function parseClassElementWorker(): ClassElement {
+    const start = scanner.tokenStart()
+    const name = parseIdentifier()
+    // コンストラクタを解析する
+    // 例）constructor(x: number) { this.x = x }
+    if (name.text === "constructor" && scanner.token() === Token.OpenParen) {
+      scanner.scan()
+      const parameters = parseTerminated(parseParameter, Token.Comma, Token.CloseParen)
+      const body = parseBlock()
+      return setClosingComments({ kind: SyntaxKind.Constructor, parameters, body, locals: new Map(), start, end: getNodeEnd(), parent: undefined! })
+    }
+    // メソッドを解析する
+    // 例）norm(): number { return this.x }
+    if (scanner.token() === Token.OpenParen || scanner.token() === Token.LessThan) {
+      const typeParameters = tryParseToken(Token.LessThan) ? parseTerminated(parseTypeParameter, Token.Comma, Token.GreaterThan) : undefined
       parseExpected(Token.OpenParen)
-      return { kind: SyntaxKind.Call, expression, typeArguments, arguments: parseTerminated(parseExpression, Token.Comma, Token.CloseParen), pos: expression.pos, parent: undefined! }
+      const parameters = parseTerminated(parseParameter, Token.Comma, Token.CloseParen)
+      const typename = tryParseTypeAnnotation()
+      const body = parseBlock()
+      return setClosingComments({ kind: SyntaxKind.Method, name, typeParameters, parameters, typename, body, locals: new Map(), start, end: getNodeEnd(), symbol: undefined!, parent: undefined! })
+    }
+    // フィールドを解析する
+    // 例）x: number, count = 0
+    const typename = tryParseTypeAnnotation()
+    const initializer = tryParseToken(Token.Equals) ? parseExpression() : undefined
+    return { kind: SyntaxKind.PropertyDeclaration, name, typename, initializer, start, end: getNodeEnd(), symbol: undefined!, parent: undefined! }
+  }
+
+  // 変数宣言を解析する関数（var, let, const）
+  // for文の初期化でも使うため、文末のセミコロンは解析しない
+  function parseVar(): Var {
+    const start = scanner.tokenStart()
+    const keyword = scanner.text() as VarKeyword
+    scanner.scan()
+    const name = parseIdentifier()
+    const typename = tryParseTypeAnnotation()
+    parseExpected(Token.Equals)
+    const initializer = parseExpression()
+    return { kind: SyntaxKind.Var, keyword, name, typename, initializer, start, end: getNodeEnd(), symbol: undefined!, parent: undefined! }
+  }
+
+  // if文・while文・do-while文の、括弧で囲まれた条件式を解析する関数
+  function parseParenthesizedCondition(): Expression {
+    parseExpected(Token.OpenParen)
+    const expression = parseExpression()
+    parseExpected(Token.CloseParen)
+    return expression
+  }
+
+  // 式を解析する関数
+  // 二項演算子を含む式全体を、演算子の優先順位に従って解析する
+  function parseExpression(): Expression {
+    // アロー関数は代入式と同じく最も弱く結合するため、二項演算子の式より先に判別する
+    if (isStartOfArrowFunction()) {
+      return parseArrowFunction()
+    }
+    const expression = parseBinaryExpression(0)
+    // 代入式を解析する（例: x = 1, obj.x = 1）
+    // 代入は右結合のため、右辺も parseExpression で解析する（例: a = b = 1 は a = (b = 1)）
+    if (tryParseToken(Token.Equals)) {
+      const value = parseExpression()
+      if (!isAssignmentTarget(expression)) {
+        parseError(expression, Diagnostics.The_left_hand_side_of_an_assignment_expression_must_be_a_variable_or_a_property_access)
+        return expression
+      }
+      return { kind: SyntaxKind.Assignment, name: expression, value, start: expression.start, end: getNodeEnd(), parent: undefined! }
     }
     return expression
   }
 
+  // アロー関数を解析する関数
+  // 引数が1つで型注釈がない場合は、引数を囲む括弧を省略することができる
+  // 例）(a: number): number => a * 2, <T>(x: T) => { return x }, x => x
+  function parseArrowFunction(): ArrowFunction {
+    const start = scanner.tokenStart()
+    // "<" が見つかった場合、ジェネリック型として解析を行う
+    const typeParameters = tryParseToken(Token.LessThan) ? parseTerminated(parseTypeParameter, Token.Comma, Token.GreaterThan) : undefined
+    let parameters: Parameter[]
+    if (!typeParameters && scanner.token() === Token.Identifier) {
+      parameters = [parseParameter()]
+    }
+    else {
+      parseExpected(Token.OpenParen)
+      parameters = parseTerminated(parseParameter, Token.Comma, Token.CloseParen)
+    }
+    const typename = tryParseTypeAnnotation()
+    parseExpected(Token.Arrow)
+    // "{" から始まる場合は、オブジェクトではなくブロックとして解析する
+    const body = scanner.token() === Token.OpenBrace ? parseBlock() : parseExpression()
+    const func = {
+      kind: SyntaxKind.ArrowFunction,
+      typeParameters,
+      parameters,
+      typename,
+      body,
+      locals: new Map(),
+      start,
+      end: getNodeEnd(),
+      symbol: undefined!,
+      parent: undefined!,
+    } as ArrowFunction
+    if (Array.isArray(body)) {
+      setClosingComments(func)
+    }
+    func.symbol = { valueDeclaration: func, declarations: [func] }
+    return func
+  }
+
+  // 演算子の優先順位を使って二項演算子の式を解析する関数（優先順位上昇法）
+  // precedence より強く結合する演算子のみを解析し、左結合の木を作る（"**" のみ右結合）
+  // 例）a + b * c - d は (a + (b * c)) - d として解析する
+  function parseBinaryExpression(precedence: number): Expression {
+    // 左辺が "(" から始まる場合は、括弧で囲まれた式である（例: (-2) ** 2）
+    const isParenthesized = scanner.token() === Token.OpenParen
+    let left = parseUnaryExpression()
+    while (true) {
+      // ">" の場合は、">=" や ">>" などの演算子として解析し直す
+      if (scanner.token() === Token.GreaterThan) {
+        scanner.reScanGreaterToken()
+      }
+      if (!binaryOperatorTokens.has(scanner.token())) {
+        break
+      }
+      const operator = scanner.text() as BinaryOperator
+      const operatorPrecedence = binaryOperatorPrecedence[operator]
+      if (operatorPrecedence <= precedence) {
+        break
+      }
+      // "-2 ** 2" のように、単項演算子の式を括弧なしで "**" の左辺にすることはできない
+      if (operator === "**" && left.kind === SyntaxKind.PrefixUnaryExpression && !isParenthesized) {
+        parseError(left, Diagnostics.An_unary_expression_is_not_allowed_in_the_left_hand_side_of_an_exponentiation_expression)
+      }
+      scanner.scan()
+      const right = parseBinaryExpression(operator === "**" ? operatorPrecedence - 1 : operatorPrecedence)
+      // "??" の被演算子に、"&&"・"||" の式を括弧なしで書くことはできない（例: a ?? b || c）
+      // "??" は "&&"・"||" より弱く結合するため、"&&"・"||" の式が "??" の被演算子になる場合のみ確認する
+      if (operator === "??") {
+        checkLogicalOperandOfCoalesce(left)
+        checkLogicalOperandOfCoalesce(right)
+      }
+      left = { kind: SyntaxKind.BinaryExpression, left, operator, right, start: left.start, end: getNodeEnd(), parent: undefined! }
+    }
+    return left
+  }
+
+  // "??" の被演算子が、括弧で囲まれていない "&&"・"||" の式の場合にエラーを報告する関数
+  function checkLogicalOperandOfCoalesce(operand: Expression) {
+    if (operand.kind === SyntaxKind.BinaryExpression && (operand.operator === "&&" || operand.operator === "||") && !parenthesizedExpressions.has(operand)) {
+      parseError(operand, Diagnostics._0_and_1_operations_cannot_be_mixed_without_parentheses, operand.operator, "??")
+    }
+  }
+
+  // 前置単項演算子（!, -, +, ~, typeof）の式を解析する関数
+  // 例）!ok, -x, typeof x
+  function parseUnaryExpression(): Expression {
+    const start = scanner.tokenStart()
+    if (prefixUnaryOperatorTokens.has(scanner.token())) {
+      const operator = scanner.text() as PrefixUnaryOperator
+      scanner.scan()
+      const operand = parseUnaryExpression()
+      return { kind: SyntaxKind.PrefixUnaryExpression, operator, operand, start, end: getNodeEnd(), parent: undefined! }
+    }
+    return parseCallExpression()
+  }
+
+  // オブジェクト・関数・識別子・リテラル（文字列・数値）を解析し、加えてその後ろに続く関数呼び出し・プロパティアクセス・要素アクセスを解析する関数
+  // 後ろに続くものは左から順番に結合する（例: make().run() は (make()).run()）
+  function parseCallExpression(): Expression {
+    // オブジェクト・関数・識別子・リテラル（文字列・数値）を開始する
+    let expression = parseExpressionBelowCall()
+    while (true) {
+      // プロパティアクセスを解析する
+      // 例）obj.x
+      if (tryParseToken(Token.Dot)) {
+        const name = parseIdentifier()
+        expression = { kind: SyntaxKind.PropertyAccess, expression, name, start: expression.start, end: getNodeEnd(), parent: undefined! }
+      }
+      // 要素アクセスを解析する
+      // 例）obj["x"]
+      else if (tryParseToken(Token.OpenBracket)) {
+        const argumentExpression = parseExpression()
+        parseExpected(Token.CloseBracket)
+        expression = { kind: SyntaxKind.ElementAccess, expression, argumentExpression, start: expression.start, end: getNodeEnd(), parent: undefined! }
+      }
+      // 通常の関数呼び出しを解析する（関数を実行している箇所を指す）
+      // 例）add(1, 2);
+      else if (tryParseToken(Token.OpenParen)) {
+        expression = { kind: SyntaxKind.Call, expression, arguments: parseTerminated(parseExpression, Token.Comma, Token.CloseParen), start: expression.start, end: getNodeEnd(), parent: undefined! }
+      }
+      // ジェネリック型の関数呼び出しを解析する（関数を実行している箇所を指す）
+      // "<" が比較演算子の場合もあるため、先読みして型引数かどうかを判別する
+      else if (scanner.token() === Token.LessThan && isStartOfTypeArguments()) {
+        scanner.scan()
+        const typeArguments = parseTerminated(parseType, Token.Comma, Token.GreaterThan)
+        parseExpected(Token.OpenParen)
+        expression = { kind: SyntaxKind.Call, expression, typeArguments, arguments: parseTerminated(parseExpression, Token.Comma, Token.CloseParen), start: expression.start, end: getNodeEnd(), parent: undefined! }
+      }
+      else {
+        return expression
+      }
+    }
+  }
+
   // オブジェクト・関数・識別子・リテラル（文字列・数値）の判別を行う関数
   function parseExpressionBelowCall(): Expression {
-    const pos = scanner.position()
+    const start = scanner.tokenStart()
+
+    // 括弧で囲まれた式を解析する
+    // 括弧は式の結合順を決めるためだけに使い、ASTには括弧の中の式のみを残す
+    // 例）(a + b) * c
+    if (tryParseToken(Token.OpenParen)) {
+      const expression = parseExpression()
+      parseExpected(Token.CloseParen)
+      parenthesizedExpressions.add(expression)
+      return expression
+    }
 
     // オブジェクトの開始位置である "{" の値があることを確認
     // 例）var obj = { x: 1, y: 2 };
@@ -87,46 +594,43 @@ export const parser = (scanner: Scanner): Module => {
           kind: SyntaxKind.Object,
           properties: parseTerminated(parseProperty, Token.Comma, Token.CloseBrace),
           symbol: undefined!,
-          pos,
+          start,
+          end: getNodeEnd(),
           parent: undefined!,
       } as Object
+      setClosingComments(object)
       object.symbol = { valueDeclaration: object, declarations: [object], members: new Map() }
       return object
     }
     // 関数の開始位置である "function" の値があることを確認
     // 例）function add(a: number, b: number): number { return a + b; }
     else if (tryParseToken(Token.Function)) {
-      const name = scanner.token() === Token.Identifier ? parseIdentifier() : undefined
-      // "<" が見つかった場合、ジェネリック型として解析を行う
-      const typeParameters = tryParseToken(Token.LessThan) ? parseTerminated(parseTypeParameter, Token.Comma, Token.GreaterThan) : undefined
-      parseExpected(Token.OpenParen)
-      // 関数の引数（Parameter）を解析
-      const parameters = parseTerminated(parseParameter, Token.Comma, Token.CloseParen)
-      // ":"（コロン）があった場合に、型注釈として解析
-      const typename = tryParseTypeAnnotation()
-      // 関数のブロック内のコードを解析
-      const body = parseBlock()
-      const func = { 
-        kind: SyntaxKind.Function, 
-        name,
-        typeParameters,
-        parameters,
-        typename,
-        body,
-        locals: new Map(),
-        pos,
-        symbol: undefined!,
-        parent: undefined! 
-      } as Function
-      func.symbol = { valueDeclaration: func, declarations: [func] }
-      return func
+      return parseFunction(start, false)
     }
-    // 値が識別子（Identifier）かリテラル（文字列・数値）であることを確認
-    const e = parseIdentifierOrLiteral()
-    if (e.kind === SyntaxKind.Identifier && tryParseToken(Token.Equals)) {
-      return { kind: SyntaxKind.Assignment, name: e, value: parseExpression(), pos, parent: undefined! }
+    // this を解析する
+    if (tryParseToken(Token.This)) {
+      return { kind: SyntaxKind.This, start, end: getNodeEnd(), parent: undefined! }
+    }
+    // new 式を解析する
+    // new の対象はプロパティアクセスまでとし、その後ろの "(" を new の引数とする（引数の括弧は省略できる）
+    // 例）new Point(1, 2), new shapes.Point
+    if (tryParseToken(Token.New)) {
+      let expression = parseExpressionBelowCall()
+      while (tryParseToken(Token.Dot)) {
+        const name = parseIdentifier()
+        expression = { kind: SyntaxKind.PropertyAccess, expression, name, start: expression.start, end: getNodeEnd(), parent: undefined! }
+      }
+      const args = tryParseToken(Token.OpenParen) ? parseTerminated(parseExpression, Token.Comma, Token.CloseParen) : []
+      return { kind: SyntaxKind.New, expression, arguments: args, start, end: getNodeEnd(), parent: undefined! }
     }
-    return e
+    // 配列リテラルを解析する
+    // 例）[1, 2, 3]
+    if (tryParseToken(Token.OpenBracket)) {
+      const elements = parseTerminated(parseExpression, Token.Comma, Token.CloseBracket)
+      return { kind: SyntaxKind.ArrayLiteral, elements, start, end: getNodeEnd(), parent: undefined! }
+    }
+    // 値が識別子（Identifier）かリテラル（文字列・数値）であることを確認
+    return parseIdentifierOrLiteral()
   }
 
   // 識別子（Identifier）を解析する関数
@@ -137,88 +641,264 @@ export const parser = (scanner: Scanner): Module => {
     if (e.kind === SyntaxKind.Identifier) {
         return e
     }
-    error(e.pos, "Expected identifier but got a literal")
-    return { kind: SyntaxKind.Identifier, text: "(missing)", pos: e.pos, parent: undefined! }
+    parseError(e, Diagnostics.Expected_identifier_but_got_a_literal)
+    return createMissingIdentifier(e.start)
   }
 
   // 現在の値が識別子（Identifier）かリテラル（文字列・数値）であることを確認するための関数
   function parseIdentifierOrLiteral(): Expression {
-    const pos = scanner.position()
+    const start = scanner.tokenStart()
     const token = scanner.token()
     const text = scanner.text()
+    const value = scanner.value()
+    // 識別子・リテラル以外のトークンの場合は、トークンを読み飛ばさずに (missing) の識別子を補う
+    // 読み飛ばさないことで、"}" や ")" などの区切りのトークンを呼び出し元で解析できるようにする
+    if (!identifierOrLiteralTokens.has(token)) {
+      parseError({ start, end: scanner.position() }, Diagnostics.Identifier_or_literal_expected)
+      return createMissingIdentifier(start)
+    }
     scanner.scan()
     switch (token) {
       case Token.Identifier:
-        return { kind: SyntaxKind.Identifier, text, pos, parent: undefined! }
+        return { kind: SyntaxKind.Identifier, text, start, end: getNodeEnd(), parent: undefined! }
       case Token.NumericLiteral:
-        return { kind: SyntaxKind.NumericLiteral, value: +text, pos, parent: undefined! }
+        return { kind: SyntaxKind.NumericLiteral, value: +value, raw: text, start, end: getNodeEnd(), parent: undefined! }
+      case Token.BigIntLiteral:
+        return { kind: SyntaxKind.BigIntLiteral, value: BigInt(value), raw: text, start, end: getNodeEnd(), parent: undefined! }
       case Token.StringLiteral:
-        return { kind: SyntaxKind.StringLiteral, value: text, pos, parent: undefined! }
+        return { kind: SyntaxKind.StringLiteral, value, raw: text, start, end: getNodeEnd(), parent: undefined! }
+      case Token.True:
+      case Token.False:
+        return { kind: SyntaxKind.BooleanLiteral, value: token === Token.True, start, end: getNodeEnd(), parent: undefined! }
+      case Token.Null:
+        return { kind: SyntaxKind.NullLiteral, start, end: getNodeEnd(), parent: undefined! }
+      case Token.Undefined:
+        return { kind: SyntaxKind.UndefinedLiteral, start, end: getNodeEnd(), parent: undefined! }
+      case Token.NoSubstitutionTemplateLiteral:
+        return { kind: SyntaxKind.TemplateExpression, head: { value, raw: text }, templateSpans: [], start, end: getNodeEnd(), parent: undefined! }
+      case Token.TemplateHead:
+        return parseTemplateExpression(start, { value, raw: text })
       default:
-        error(pos, "Expected identifier or literal but got " + Token[token] + " with text " + text)
-        return { kind: SyntaxKind.Identifier, text: "(missing)", pos, parent: undefined! }
+        throw new Error(`Unexpected token ${Token[token]}`)
+    }
+  }
+
+  // 構文エラーの箇所に補う、長さ0の識別子（(missing)）を作成する関数
+  function createMissingIdentifier(start: number): Identifier {
+    return { kind: SyntaxKind.Identifier, text: "(missing)", isMissing: true, start, end: start, parent: undefined! }
+  }
+
+  // "${" を含むテンプレートリテラルを解析する関数
+  // "${" と "}" に囲まれた式と、その後ろに続く文字列部分を TemplateTail（"`"）まで順番に解析する
+  // 例）`Hello ${name}!`
+  function parseTemplateExpression(start: number, head: TemplateLiteralPart): TemplateExpression {
+    const templateSpans: TemplateSpan[] = []
+    while (true) {
+      const expression = parseExpression()
+      // "}" が見つからない場合は、テンプレートリテラルの解析を終了する
+      if (scanner.token() !== Token.CloseBrace) {
+        parseError({ start: scanner.tokenStart(), end: scanner.position() }, Diagnostics._0_expected, tokenToString(Token.CloseBrace)!)
+        templateSpans.push({ expression, literal: { value: "", raw: "" } })
+        break
+      }
+      // "}" の後ろをテンプレートリテラルの文字列部分として解析し直す
+      scanner.reScanTemplateToken()
+      const token = scanner.token()
+      templateSpans.push({ expression, literal: { value: scanner.value(), raw: scanner.text() } })
+      scanner.scan()
+      if (token === Token.TemplateTail) {
+        break
+      }
     }
+    return { kind: SyntaxKind.TemplateExpression, head, templateSpans, start, end: getNodeEnd(), parent: undefined! }
+  }
+
+  // 型を解析する関数
+  // "|" で区切られた型はユニオン型として解析する（先頭の "|" は省略できる）
+  // 例）type Status = "on" | "off"
+  function parseType(): TypeNode {
+    const start = scanner.tokenStart()
+    const hasLeadingBar = tryParseToken(Token.Bar)
+    const type = parseIntersectionType()
+    if (scanner.token() !== Token.Bar) {
+      return type
+    }
+    const types = [type]
+    while (tryParseToken(Token.Bar)) {
+      types.push(parseIntersectionType())
+    }
+    return { kind: SyntaxKind.UnionType, types, start: hasLeadingBar ? start : type.start, end: getNodeEnd(), parent: undefined! }
+  }
+
+  // "&" で区切られた型をインターセクション型として解析する関数
+  // "&" は "|" より強く結合する（例: A & B | C は (A & B) | C）
+  function parseIntersectionType(): TypeNode {
+    const type = parseArrayType()
+    if (scanner.token() !== Token.Ampersand) {
+      return type
+    }
+    const types = [type]
+    while (tryParseToken(Token.Ampersand)) {
+      types.push(parseArrayType())
+    }
+    return { kind: SyntaxKind.IntersectionType, types, start: type.start, end: getNodeEnd(), parent: undefined! }
+  }
+
+  // 型の後ろに "[]" が続く場合に、配列型として解析する関数
+  // 例）type Test = number[][]
+  function parseArrayType(): TypeNode {
+    let type = parseNonArrayType()
+    // 改行の後の "[" は、次の文の配列リテラルの開始とみなす
+    while (!scanner.hasPrecedingLineBreak() && tryParseToken(Token.OpenBracket)) {
+      parseExpected(Token.CloseBracket)
+      type = { kind: SyntaxKind.ArrayType, elementType: type, start: type.start, end: getNodeEnd(), parent: undefined! }
+    }
+    return type
   }
 
   // オブジェクト全体の型を解析する関数
-  // オブジェクトでない場合は、関数型として解析し、関数型でない場合は識別子として解析する
+  // オブジェクトでない場合は、タプル型・リテラル型・括弧で囲まれた型・関数型として解析し、いずれでもない場合は識別子として解析する
   // 例）type Test = { a: number, b: string };
-  function parseType(): TypeNode {
-    const pos = scanner.position()
+  function parseNonArrayType(): TypeNode {
+    const start = scanner.tokenStart()
+    // リテラル型を解析する
+    // 例）type Status = "on", type One = 1, type MinusOne = -1, type Yes = true, type Nothing = null
+    if (literalTypeTokens.has(scanner.token()) || (scanner.token() === Token.Minus && isNegativeNumberLiteral())) {
+      // 負の数は、"-" の前置単項演算子の式として保持する
+      const literal = (tryParseToken(Token.Minus)
+        ? { kind: SyntaxKind.PrefixUnaryExpression, operator: "-", operand: parseIdentifierOrLiteral(), start, end: getNodeEnd(), parent: undefined! }
+        : parseIdentifierOrLiteral()) as LiteralTypeNode["literal"]
+      return { kind: SyntaxKind.LiteralType, literal, start, end: getNodeEnd(), parent: undefined! }
+    }
+    // 括弧で囲まれた型を解析する
+    // 括弧は型の結合順を決めるためだけに使い、ASTには括弧の中の型のみを残す
+    // 例）type List = (string | number)[]
+    if (scanner.token() === Token.OpenParen && lookAheadTokenAfterParentheses() !== Token.Arrow) {
+      scanner.scan()
+      const type = parseType()
+      parseExpected(Token.CloseParen)
+      return type
+    }
     // オブジェクトの開始位置である "{" の値があることを確認
     if (tryParseToken(Token.OpenBrace)) {
       const object = {
         kind: SyntaxKind.ObjectLiteralType,
-        properties: parseTerminated(parsePropertyDeclaration, Token.Comma, Token.CloseBrace),
+        properties: parseTerminated(parsePropertyDeclaration, [Token.Comma, Token.Semicolon], Token.CloseBrace),
         symbol: undefined!,
-        pos,
+        start,
+        end: getNodeEnd(),
         parent: undefined!,
       } as ObjectLiteralType
       object.symbol = { valueDeclaration: undefined, declarations: [object], members: new Map() }
       return object
     }
+    // タプル型を解析する
+    // 例）type Pair = [string, number]
+    if (tryParseToken(Token.OpenBracket)) {
+      const elementTypes = parseTerminated(parseType, Token.Comma, Token.CloseBracket)
+      return { kind: SyntaxKind.TupleType, elementTypes, start, end: getNodeEnd(), parent: undefined! }
+    }
     // "{" が見つからなかった場合、別の値として解析を行う
-    return tryParseSignature() || parseIdentifier()
+    const signature = tryParseSignature()
+    if (signature) {
+      return signature
+    }
+    const name = parseIdentifier()
+    // Array<T> は T[] と同じ配列型として解析する
+    if (name.text === "Array" && tryParseToken(Token.LessThan)) {
+      const elementType = parseType()
+      parseExpected(Token.GreaterThan)
+      return { kind: SyntaxKind.ArrayType, elementType, start, end: getNodeEnd(), parent: undefined! }
+    }
+    // "<" が見つかった場合、型引数を指定した型の参照として解析する
+    // 例）Box<number>, Pair<string, Box<number>>
+    if (tryParseToken(Token.LessThan)) {
+      const typeArguments = parseTerminated(parseType, Token.Comma, Token.GreaterThan)
+      return { kind: SyntaxKind.TypeReference, typeName: name, typeArguments, start, end: getNodeEnd(), parent: undefined! }
+    }
+    return name
   }
 
   // オブジェクトのプロパティを解析する関数
   // 例）{ key: value } の key: value の部分を解析する
   function parseProperty(): PropertyAssignment {
-    const name = parseIdentifierOrLiteral()
-    if (name.kind !== SyntaxKind.Identifier) {
-      throw new Error("Only identifiers are allowed as property names in deci-typescript")
-    }
+    const leadingComments = takeCommentsBeforeToken()
+    const name = parseIdentifier()
     parseExpected(Token.Colon)
     const initializer = parseExpression()
-    return { kind: SyntaxKind.PropertyAssignment, name, initializer, pos: name.pos, symbol: undefined!, parent: undefined! }
+    const property: PropertyAssignment = { kind: SyntaxKind.PropertyAssignment, name, initializer, start: name.start, end: getNodeEnd(), symbol: undefined!, parent: undefined! }
+    // プロパティの直前にあるコメントをプロパティに紐づける（例: { /* c */ a: 1 }）
+    if (leadingComments.length) {
+      property.leadingComments = leadingComments
+    }
+    return property
   }
 
   // オブジェクトの中身の型を解析する関数
   // var test = { hoge: "fuga" } というオブジェクトの場合、hoge: string として解析する
   function parsePropertyDeclaration(): PropertyDeclaration {
     // オブジェクトのプロパティ名を解析
-    const name = parseIdentifierOrLiteral()
-    if (name.kind !== SyntaxKind.Identifier) {
-      throw new Error("Only identifiers are allowed as property names in deci-typescript")
-    }
+    const name = parseIdentifier()
     // オブジェクトのプロパティの型を解析
     const typename = tryParseTypeAnnotation()
-    return { kind: SyntaxKind.PropertyDeclaration, name, typename, pos: name.pos, symbol: undefined!, parent: undefined! }
+    return { kind: SyntaxKind.PropertyDeclaration, name, typename, start: name.start, end: getNodeEnd(), symbol: undefined!, parent: undefined! }
+  }
+
+  // "function" の後ろに続く関数の名前・型パラメータ・引数・本体を解析する関数
+  // 関数宣言（文）の場合は名前を省略できず、関数式の場合は省略できる
+  function parseFunction(start: number, isDeclaration: boolean): Function {
+    const name = isDeclaration || scanner.token() === Token.Identifier ? parseIdentifier() : undefined
+    // "<" が見つかった場合、ジェネリック型として解析を行う
+    const typeParameters = tryParseToken(Token.LessThan) ? parseTerminated(parseTypeParameter, Token.Comma, Token.GreaterThan) : undefined
+    parseExpected(Token.OpenParen)
+    // 関数の引数（Parameter）を解析
+    const parameters = parseTerminated(parseParameter, Token.Comma, Token.CloseParen)
+    // ":"（コロン）があった場合に、型注釈として解析
+    const typename = tryParseTypeAnnotation()
+    // 関数のブロック内のコードを解析
+    const body = parseBlock()
+    const func = { 
+      kind: SyntaxKind.Function, 
+      name,
+      typeParameters,
+      parameters,
+      typename,
+      body,
+      locals: new Map(),
+      start,
+      end: getNodeEnd(),
+      symbol: undefined!,
+      parent: undefined! 
+    } as Function
+    setClosingComments(func)
+    func.symbol = { valueDeclaration: func, declarations: [func] }
+    return func
   }
 
   // 関数の引数（Parameter）の型を解析する関数
+  // 例）T, T extends { length: number }, T = string
   function parseTypeParameter(): TypeParameter {
     const id = parseIdentifier()
-    return { kind: SyntaxKind.TypeParameter, name: id, pos: id.pos, symbol: undefined!, parent: undefined!}
+    const constraint = tryParseToken(Token.Extends) ? parseType() : undefined
+    const defaultType = tryParseToken(Token.Equals) ? parseType() : undefined
+    return { kind: SyntaxKind.TypeParameter, name: id, constraint, default: defaultType, start: id.start, end: getNodeEnd(), symbol: undefined!, parent: undefined!}
   }
 
   // 関数の引数（Parameter）を解析する関数
+  // 例）x: number, x?: number, x: number = 0, ...rest: number[]
   function parseParameter(): Parameter {
+    const start = scanner.tokenStart()
+    // "..." が見つかった場合、残余引数として解析する
+    const isRest = tryParseToken(Token.DotDotDot) || undefined
     // 引数名を解析
     const name = parseIdentifier()
+    // "?" が見つかった場合、省略可能な引数として解析する
+    const isOptional = tryParseToken(Token.Question) || undefined
     // 引数の型を解析
     const typename = tryParseTypeAnnotation()
-    return { kind: SyntaxKind.Parameter, name, typename, pos: name.pos, symbol: undefined!, parent: undefined! }
+    // "=" が見つかった場合、デフォルト値として解析する
+    const initializer = tryParseToken(Token.Equals) ? parseExpression() : undefined
+    return { kind: SyntaxKind.Parameter, name, isRest, isOptional, typename, initializer, start, end: getNodeEnd(), symbol: undefined!, parent: undefined! }
   }
 
   // ブロック内のコードの文を構成する要素の解析する関数
@@ -232,7 +912,7 @@ export const parser = (scanner: Scanner): Module => {
   // 関数の型を解析する関数
   // 例）type Test = (a: number, b: string) => boolean
   function tryParseSignature(): SignatureDeclaration | undefined {
-    const pos = scanner.position()
+    const start = scanner.tokenStart()
     let typeParameters: TypeParameter[] | undefined
     // "<" が見つかった場合、ジェネリック型として解析を行う
     if (tryParseToken(Token.LessThan)) {
@@ -251,7 +931,8 @@ export const parser = (scanner: Scanner): Module => {
         parameters,
         typename,
         locals: new Map(),
-        pos,
+        start,
+        end: getNodeEnd(),
         symbol: undefined!,
         parent: undefined!,
       } as SignatureDeclaration
@@ -262,6 +943,88 @@ export const parser = (scanner: Scanner): Module => {
 
   //  -------------------------- 以下解析のためのutility関数 --------------------------
 
+  // 現在の "<" が、関数呼び出しの型引数の開始かどうかを先読みして判別する関数
+  // 対応する ">" までが型として書けるトークンのみで構成され、その直後に "(" が続く場合に型引数とみなす
+  // 例）f<number>(1) は型引数、a < b は比較演算子
+  function isStartOfTypeArguments(): boolean {
+    return scanner.lookAhead(() => {
+      let depth = 0
+      while (typeArgumentTokens.has(scanner.token())) {
+        if (scanner.token() === Token.LessThan) {
+          depth++
+        }
+        else if (scanner.token() === Token.GreaterThan && --depth === 0) {
+          scanner.scan()
+          return scanner.token() === Token.OpenParen
+        }
+        scanner.scan()
+      }
+      return false
+    })
+  }
+
+  // 現在のトークンが、アロー関数の開始かどうかを先読みして判別する関数
+  // "(" の場合は、対応する ")" までが引数として書けるトークンのみで構成され、その直後に "=>" か戻り値の型注釈の ":" が続く場合にアロー関数とみなす
+  // 例）(a: number) => a はアロー関数、(a + b) * c は括弧で囲まれた式
+  function isStartOfArrowFunction(): boolean {
+    switch (scanner.token()) {
+      // 式の先頭の "<" は、ジェネリック型のアロー関数の開始である
+      case Token.LessThan:
+        return true
+      // 括弧を省略した引数の場合は、直後に "=>" が続く
+      case Token.Identifier:
+        return scanner.lookAhead(() => {
+          scanner.scan()
+          return scanner.token() === Token.Arrow
+        })
+      case Token.OpenParen:
+        const next = lookAheadTokenAfterParentheses()
+        return next === Token.Arrow || next === Token.Colon
+      default:
+        return false
+    }
+  }
+
+  // 現在の "-" の直後に、数値・BigIntのリテラルが続くかどうかを先読みして判別する関数
+  // 例）type MinusOne = -1
+  function isNegativeNumberLiteral(): boolean {
+    return scanner.lookAhead(() => {
+      scanner.scan()
+      return scanner.token() === Token.NumericLiteral || scanner.token() === Token.BigIntLiteral
+    })
+  }
+
+  // 現在の "(" に対応する ")" の直後のトークンを先読みして返す関数
+  // "(" から ")" までに、型や引数として書くことができないトークンがある場合は undefined を返す
+  // アロー関数・関数型の開始か、括弧で囲まれた式・型かを判別する際に使う
+  function lookAheadTokenAfterParentheses(): Token | undefined {
+    return scanner.lookAhead(() => {
+      let depth = 0
+      while (parameterListTokens.has(scanner.token())) {
+        if (scanner.token() === Token.OpenParen) {
+          depth++
+        }
+        else if (scanner.token() === Token.CloseParen && --depth === 0) {
+          scanner.scan()
+          return scanner.token()
+        }
+        scanner.scan()
+      }
+      return undefined
+    })
+  }
+
+  // 代入先として書くことができる式（識別子・プロパティアクセス・要素アクセス）かどうかを判別する関数
+  function isAssignmentTarget(expression: Expression): expression is AssignmentTarget {
+    return expression.kind === SyntaxKind.Identifier || expression.kind === SyntaxKind.PropertyAccess || expression.kind === SyntaxKind.ElementAccess
+  }
+
+  // ノードの終了位置を取得する関数
+  // 現在のトークンの直前（空白・コメントを含まない）、つまり最後に解析したトークンの終了位置を返す
+  function getNodeEnd() {
+    return scanner.tokenFullStart()
+  }
+
   // 引数で受け取った値（トークン）と、現在解析しているトークンが一致している時、その値（トークン）をスキップする関数
   function tryParseToken(expected: Token) {
     const ok = scanner.token() === expected
@@ -271,29 +1034,69 @@ export const parser = (scanner: Scanner): Module => {
     return ok
   }
 
+  // 引数で受け取った文字列と一致する識別子（from, as のように、予約語ではないが特別な意味を持つ名前）をスキップする関数
+  function tryParseContextualKeyword(text: string) {
+    const ok = scanner.token() === Token.Identifier && scanner.text() === text
+    if (ok) {
+      scanner.scan()
+    }
+    return ok
+  }
+
   // 引数で受け取った値（トークン）が、現在の値（トークン）の位置と一致しているかどうか判別する関数
   function parseExpected(expected: Token) {
     if (!tryParseToken(expected)) {
-      error(scanner.position(), `parseToken: Expected ${Token[expected]} but got ${Token[scanner.token()]}`)
+      parseError({ start: scanner.tokenStart(), end: scanner.position() }, Diagnostics._0_expected, tokenToString(expected)!)
     }
   }
 
   // 第3引数で受け取った値（トークン）が見つかるまで、第1引数の関数を実行し続ける関数
   // 第2引数で受け取った値（トークン）が見つかった場合は、その値（トークン）をスキップする
-  function parseTerminated<T>(element: () => T, separator: Token, terminator: Token) {
+  // 終端のトークンが見つからないままファイルの終わりに到達した場合や、要素の解析でトークンが1つも進まなかった場合は、
+  // 無限ループにならないようにエラーを報告して解析を終了する
+  // separator に配列を渡した場合は、いずれのトークンも区切りとして扱う（例: オブジェクトの型定義の "," と ";"）
+  function parseTerminated<T>(element: () => T, separator: Token | Token[], terminator: Token) {
+    const separators = Array.isArray(separator) ? separator : [separator]
     const list = []
     while (true) {
-      if (tryParseToken(terminator)) {
+      // 終端のトークンの直前にあるコメントは、一覧を持つノード（ブロック・クラスなど）に紐づけられるよう記録しておく
+      if (scanner.token() === terminator) {
+        closingComments = takeCommentsBeforeToken()
+        scanner.scan()
+        break
+      }
+      else if (scanner.token() === Token.EOF) {
+        parseExpected(terminator)
+        closingComments = []
         break
       }
       else {
+        const start = scanner.tokenStart()
         list.push(element())
-        tryParseToken(separator)
+        if (!separators.some(tryParseToken) && scanner.tokenStart() === start) {
+          parseExpected(terminator)
+          closingComments = []
+          break
+        }
       }
     }
     return list
   }
 
+  // 現在のトークンが、文の終わりとして扱えるかどうかを判別する関数
+  // セミコロン・"}"・ファイルの終わり、または前のトークンとの間に改行がある場合は文の終わりとする
+  function isStatementEnd() {
+    const token = scanner.token()
+    return token === Token.Semicolon || token === Token.CloseBrace || token === Token.EOF || scanner.hasPrecedingLineBreak()
+  }
+
+  // 構文エラーから回復するために、次の文の区切り（文の終わりか、var・type・return などの文の開始）までトークンを読み飛ばす関数
+  function skipToStatementBoundary() {
+    while (!isStatementEnd() && !statementStartTokens.has(scanner.token())) {
+      scanner.scan()
+    }
+  }
+
   // ":"（コロン）があった場合に、型注釈として解析を行う関数
   function tryParseTypeAnnotation(): TypeNode | undefined {
     if (tryParseToken(Token.Colon)) {
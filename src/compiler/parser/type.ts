@@ -1,50 +1,120 @@
+import type { Comment } from '../scanner/type.js'
+
 export enum SyntaxKind {
   Module,                // モジュール
   Identifier,            // 識別子
   NumericLiteral,        // 数値
+  BigIntLiteral,         // BigInt
   StringLiteral,         // 文字列
+  BooleanLiteral,        // 真偽値（true, false）
+  NullLiteral,           // null
+  UndefinedLiteral,      // undefined
+  TemplateExpression,    // テンプレートリテラル
   Assignment,            // 代入
+  BinaryExpression,      // 二項演算子を使った式
+  PrefixUnaryExpression, // 前置単項演算子を使った式
   ExpressionStatement,   // 式文
   Var,                   // 変数
   TypeAlias,             // 型エイリアス
+  Interface,             // インターフェース
+  Class,                 // クラス
+  Method,                // メソッド
+  Constructor,           // コンストラクタ
+  Import,                // import 宣言
+  ImportSpecifier,       // import する名前
   Object,                // オブジェクト
   PropertyAssignment,    // プロパティ代入
   ObjectLiteralType,     // オブジェクトリテラル型
   PropertyDeclaration,   // プロパティ宣言
   Function,              // 関数
+  ArrowFunction,         // アロー関数
   Signature,             // 関数シグネチャ
   Parameter,             // 引数（パラメータ）
   TypeParameter,         // 型パラメータ
   Return,                // 戻り値
+  Block,                 // ブロック
+  If,                    // if文
+  While,                 // while文
+  DoWhile,               // do-while文
+  For,                   // for文
+  Break,                 // break文
+  Continue,              // continue文
   Call,                  // 関数呼び出し
+  PropertyAccess,        // プロパティアクセス
+  ElementAccess,         // 要素アクセス
+  ArrayLiteral,          // 配列リテラル
+  New,                   // new 式
+  This,                  // this
+  ArrayType,             // 配列型
+  TupleType,             // タプル型
+  LiteralType,           // リテラル型
+  UnionType,             // ユニオン型
+  IntersectionType,      // インターセクション型
+  TypeReference,         // 型引数を指定した型の参照
 }
 
+// ソースコード内の範囲を表す型
+export type Span = {
+  start: number  // 範囲の開始位置（直前の空白・コメントを含まない）
+  end: number    // 範囲の終了位置
+}
+// エラー（診断メッセージ）の重要度を表す値
+// Message は、エラーの理由の詳細や関連する位置の説明のように、他のエラーに付けて表示するメッセージを表す
+export enum DiagnosticCategory {
+  Error,
+  Warning,
+  Suggestion,
+  Message,
+}
+// エラーのメッセージの定義を表す型
+// message の {0}, {1}... は、エラーを報告する際に渡した引数に置き換える（例: "Could not resolve {0}"）
+export type DiagnosticMessage = {
+  code: number  // エラーの種類ごとに決まった番号
+  category: DiagnosticCategory
+  message: string
+}
+// エラーに関連する、別の位置の情報を表す型（例: 重複した宣言のエラーに付ける、最初の宣言の位置）
+export type DiagnosticRelatedInformation = {
+  fileName?: string
+  start: number
+  length: number
+  message: string
+}
 // エラーが発生した際に返す値の型
-export type Error = {
-  pos: number
+export type Diagnostic = {
+  code: number
+  category: DiagnosticCategory
   message: string
+  fileName?: string  // エラーが発生したファイル名
+  start: number      // エラーの範囲の開始位置
+  length: number     // エラーの範囲の長さ
+  messageChain?: string[]  // エラーの理由の詳細（後ろの要素ほど、1つ前の要素をさらに詳しく説明する）
+  relatedInformation?: DiagnosticRelatedInformation[]  // エラーに関連する位置の一覧
 }
 // 解析している値・要素の位置情報の型
-export interface Location {
+export interface Location extends Span {
   parent: Node // 値・要素の親要素を表す
-  pos: number  // 値・要素がソースコード内のどの位置にあるかを示す
+  leadingComments?: Comment[]   // 値・要素の直前にあるコメント
+  trailingComments?: Comment[]  // 値・要素の後ろ（同じ行）にあるコメント
+  closingComments?: Comment[]   // ブロック・関数・クラス・オブジェクトの閉じ括弧 "}" の直前にあるコメント
+  flowNode?: FlowNode           // 値・要素の位置に対応する制御フローグラフのノード（binder で文と識別子に設定する）
 }
 
 // コードの文を表す型
 // プログラムの実行単位（アクションや宣言）を表す要素の型
-export type Statement = Var | TypeAlias | ExpressionStatement | Return
+export type Statement = Var | TypeAlias | Interface | Class | Function | Import | ExpressionStatement | Return | Block | If | While | DoWhile | For | Break | Continue
 // コードの式を表す型
 // プログラム内での演算や参照などを行う要素の型
-export type Expression = Identifier | NumericLiteral | StringLiteral | Assignment | Object | Function | Call
+export type Expression = Identifier | NumericLiteral | BigIntLiteral | StringLiteral | BooleanLiteral | NullLiteral | UndefinedLiteral | TemplateExpression | Assignment | BinaryExpression | PrefixUnaryExpression | Object | Function | ArrowFunction | Call | New | This | PropertyAccess | ElementAccess | ArrayLiteral
 // 型情報を表す値・要素の集合を表す型
-export type TypeNode = Identifier | ObjectLiteralType | SignatureDeclaration
+export type TypeNode = Identifier | TypeReference | ObjectLiteralType | SignatureDeclaration | ArrayTypeNode | TupleTypeNode | LiteralTypeNode | UnionTypeNode | IntersectionTypeNode
 // プログラムでの宣言を表す型
-export type Declaration = Var | TypeAlias | ObjectLiteralType | Object | Parameter | TypeParameter | PropertyAssignment | PropertyDeclaration | Function | SignatureDeclaration
+export type Declaration = Var | TypeAlias | Interface | Class | Method | ImportSpecifier | ObjectLiteralType | Object | Parameter | TypeParameter | PropertyAssignment | PropertyDeclaration | Function | ArrowFunction | SignatureDeclaration
 export type DeclarationBase = {
   symbol: Symbol
 }
 export type Container = Module | Function
-export type Node = Expression | Statement | Declaration | Module | TypeNode
+export type Node = Expression | Statement | Declaration | Constructor | Module | TypeNode
 
 // ------------------------------------------------------------
 // 以下、コードの要素を表す型
@@ -53,55 +123,227 @@ export type Node = Expression | Statement | Declaration | Module | TypeNode
 export type Identifier = Location & {
   kind: SyntaxKind.Identifier
   text: string
+  isMissing?: boolean  // 構文エラーにより、パーサーが補った識別子（(missing)）かどうか
 }
 // 数値を表す型
 export type NumericLiteral = Location & {
   kind: SyntaxKind.NumericLiteral
-  value: number
+  value: number  // 区切り文字などを解釈した数値
+  raw: string    // 元のコードの文字列（例: 0xff, 1_000）
+}
+// BigIntを表す型（例: 10n）
+export type BigIntLiteral = Location & {
+  kind: SyntaxKind.BigIntLiteral
+  value: bigint  // 区切り文字などを解釈した値
+  raw: string    // "n" を含めた元のコードの文字列
 }
 // 文字列を表す型
 export type StringLiteral = Location & {
   kind: SyntaxKind.StringLiteral
-  value: string
+  value: string  // エスケープシーケンスを解釈した値
+  raw: string    // クォーテーションを含めた元のコードの文字列
+}
+// 真偽値を表す型（例: true, false）
+export type BooleanLiteral = Location & {
+  kind: SyntaxKind.BooleanLiteral
+  value: boolean
+}
+// null を表す型
+export type NullLiteral = Location & {
+  kind: SyntaxKind.NullLiteral
+}
+// undefined を表す型
+export type UndefinedLiteral = Location & {
+  kind: SyntaxKind.UndefinedLiteral
+}
+// テンプレートリテラルを表す型（例: `Hello ${name}!`）
+export type TemplateExpression = Location & {
+  kind: SyntaxKind.TemplateExpression
+  head: TemplateLiteralPart
+  templateSpans: TemplateSpan[]
+}
+// テンプレートリテラルの "${...}" とその後ろに続く文字列部分を表す型
+export type TemplateSpan = {
+  expression: Expression
+  literal: TemplateLiteralPart
 }
-// 代入式を表す型（例: x = 10）
+// テンプレートリテラルの文字列部分を表す型
+export type TemplateLiteralPart = {
+  value: string  // エスケープシーケンスを解釈した値
+  raw: string    // 区切り文字（"`", "${", "}"）を含まない元のコードの文字列
+}
+// 代入式を表す型（例: x = 10, obj.x = 10）
 export type Assignment = Location & {
   kind: SyntaxKind.Assignment
-  name: Identifier
+  name: AssignmentTarget
   value: Expression
 }
+// 代入先として書くことができる式を表す型
+export type AssignmentTarget = Identifier | PropertyAccess | ElementAccess
+// プロパティアクセスを表す型（例: obj.x）
+export type PropertyAccess = Location & {
+  kind: SyntaxKind.PropertyAccess
+  expression: Expression
+  name: Identifier
+}
+// 要素アクセスを表す型（例: obj["x"]）
+export type ElementAccess = Location & {
+  kind: SyntaxKind.ElementAccess
+  expression: Expression
+  argumentExpression: Expression
+}
+// 二項演算子を使った式を表す型（例: a + b, x === 1, ok && ready）
+export type BinaryExpression = Location & {
+  kind: SyntaxKind.BinaryExpression
+  left: Expression
+  operator: BinaryOperator
+  right: Expression
+}
+// 前置単項演算子を使った式を表す型（例: !ok, -x）
+export type PrefixUnaryExpression = Location & {
+  kind: SyntaxKind.PrefixUnaryExpression
+  operator: PrefixUnaryOperator
+  operand: Expression
+}
+// 二項演算子の種類を表す型
+export type BinaryOperator =
+  | "+" | "-" | "*" | "/" | "%" | "**"
+  | "<" | ">" | "<=" | ">="
+  | "==" | "!=" | "===" | "!=="
+  | "<<" | ">>" | ">>>" | "&" | "|" | "^"
+  | "&&" | "||" | "??"
+// 前置単項演算子の種類を表す型
+export type PrefixUnaryOperator = "!" | "-" | "+" | "~" | "typeof"
 // オブジェクトを表す型（例: { a: 1, b: 2 }）
 export type Object = Location & DeclarationBase & {
   kind: SyntaxKind.Object
   properties: PropertyAssignment[]
   symbol: ObjectSymbol
 }
+// 配列リテラルを表す型（例: [1, 2, 3]）
+export type ArrayLiteral = Location & {
+  kind: SyntaxKind.ArrayLiteral
+  elements: Expression[]
+}
+// new 式を表す型（例: new Point(1, 2)）
+export type New = Location & {
+  kind: SyntaxKind.New
+  expression: Expression
+  arguments: Expression[]
+}
+// this を表す型
+export type This = Location & {
+  kind: SyntaxKind.This
+}
 // 関数を表す型（例: function() {}）
+// 文として書いた場合は関数宣言になり、名前を省略できない（例: function add(a: number, b: number) { return a + b }）
 export type Function = Location & DeclarationBase & {
   kind: SyntaxKind.Function
+  isExported?: boolean
   name?: Identifier
   typeParameters?: TypeParameter[]
   parameters: Parameter[]
   typename?: TypeNode
   body: Statement[]
   locals: Table
+  endFlowNode?: FlowNode  // 本体の末尾の制御フローグラフのノード
+}
+// アロー関数を表す型（例: (a: number) => a, <T>(x: T) => { return x }）
+// 本体がブロックの場合は文の配列を、式の場合はその式を body に持つ
+export type ArrowFunction = Location & DeclarationBase & {
+  kind: SyntaxKind.ArrowFunction
+  typeParameters?: TypeParameter[]
+  parameters: Parameter[]
+  typename?: TypeNode
+  body: Statement[] | Expression
+  locals: Table
+  endFlowNode?: FlowNode  // 本体の末尾の制御フローグラフのノード
 }
 
 // ------------------------------------------------------------
 // 以下、宣言を表す型
 
-// 変数宣言を表す型（例: var x = 10）
+// 変数宣言を表す型（例: var x = 10, let x = 10, const x = 10）
+// let・const で宣言された変数はブロックスコープになる
 export type Var = Location & DeclarationBase & {
   kind: SyntaxKind.Var
+  isExported?: boolean  // export がついているかどうか
+  keyword: VarKeyword
   name: Identifier
   typename?: TypeNode
   initializer: Expression
 }
+// 変数宣言に使われるキーワード
+export type VarKeyword = "var" | "let" | "const"
 // 型エイリアス宣言を表す型（例: type MyType = { a: number, b: string }）
+// 型パラメータを持つ場合は、型パラメータを locals に登録する（例: type Box<T> = { value: T }）
 export type TypeAlias = Location & DeclarationBase & {
   kind: SyntaxKind.TypeAlias
+  isExported?: boolean
   name: Identifier
+  typeParameters?: TypeParameter[]
   typename: TypeNode
+  locals: Table
+}
+// インターフェース宣言を表す型（例: interface Point3D extends Point { z: number }）
+// 同じ名前のインターフェースの宣言は1つのシンボルにまとめられ、プロパティは宣言ごとに members に登録する
+export type Interface = Location & DeclarationBase & {
+  kind: SyntaxKind.Interface
+  isExported?: boolean
+  name: Identifier
+  heritage?: Identifier[]
+  properties: PropertyDeclaration[]
+  members: Table
+}
+// クラス宣言を表す型（例: class Point { x: number; constructor(x: number) { this.x = x } }）
+// クラスのシンボルは、値（コンストラクタ）と型（インスタンスの型）の両方の意味を持つ
+// フィールドとメソッドは、インスタンスのメンバーとして members に登録する
+export type Class = Location & DeclarationBase & {
+  kind: SyntaxKind.Class
+  isExported?: boolean
+  name: Identifier
+  elements: ClassElement[]
+  members: Table
+}
+// クラスの本体に書くことができる要素を表す型
+export type ClassElement = PropertyDeclaration | Method | Constructor
+// クラスのメソッドを表す型（例: norm(): number { return this.x }）
+export type Method = Location & DeclarationBase & {
+  kind: SyntaxKind.Method
+  name: Identifier
+  typeParameters?: TypeParameter[]
+  parameters: Parameter[]
+  typename?: TypeNode
+  body: Statement[]
+  locals: Table
+  endFlowNode?: FlowNode  // 本体の末尾の制御フローグラフのノード
+}
+// クラスのコンストラクタを表す型（例: constructor(x: number) { this.x = x }）
+export type Constructor = Location & {
+  kind: SyntaxKind.Constructor
+  parameters: Parameter[]
+  body: Statement[]
+  locals: Table
+  endFlowNode?: FlowNode  // 本体の末尾の制御フローグラフのノード
+}
+// export することができる宣言を表す型（例: export var x = 1, export type T = number）
+export type ExportableDeclaration = Var | TypeAlias | Interface | Class | Function
+// import 宣言を表す型（例: import { a, type B, c as d } from "./x"）
+// module には、Program がモジュールの解決を行った結果の import 元のモジュールを設定する
+export type Import = Location & {
+  kind: SyntaxKind.Import
+  specifiers: ImportSpecifier[]
+  moduleSpecifier: StringLiteral
+  module?: Module
+}
+// import する名前を表す型（例: a, type B, c as d）
+// name はこのファイルで使う名前で、as で別名をつけた場合は propertyName が import 元で export された名前になる
+// import した名前のシンボルは、checker で import 元の export されたシンボルに解決する
+export type ImportSpecifier = Location & DeclarationBase & {
+  kind: SyntaxKind.ImportSpecifier
+  isTypeOnly?: boolean  // type がついているかどうか（型としてのみ使うことができる）
+  propertyName?: Identifier
+  name: Identifier
 }
 // 式を実行する文（例: console.log("Hello")）
 export type ExpressionStatement = Location & {
@@ -109,10 +351,58 @@ export type ExpressionStatement = Location & {
   expression: Expression
 }
 //  return 文を表す型（例: return x）
+// 戻り値の式を省略した場合（例: return）は、expression を持たない
 export type Return = Location & {
   kind: SyntaxKind.Return
+  expression?: Expression
+}
+
+// ブロックを表す型（例: { x = 1; y = 2 }）
+// let・const で宣言された変数は locals に登録する
+export type Block = Location & {
+  kind: SyntaxKind.Block
+  statements: Statement[]
+  locals: Table
+}
+// if文を表す型（例: if (x > 0) { ... } else { ... }）
+export type If = Location & {
+  kind: SyntaxKind.If
+  expression: Expression
+  thenStatement: Statement
+  elseStatement?: Statement
+}
+// while文を表す型（例: while (x > 0) { ... }）
+export type While = Location & {
+  kind: SyntaxKind.While
   expression: Expression
+  statement: Statement
 }
+// do-while文を表す型（例: do { ... } while (x > 0)）
+export type DoWhile = Location & {
+  kind: SyntaxKind.DoWhile
+  statement: Statement
+  expression: Expression
+}
+// for文を表す型（例: for (let i = 0; i < 10; i = i + 1) { ... }）
+// 初期化部分で let・const で宣言された変数は locals に登録する
+export type For = Location & {
+  kind: SyntaxKind.For
+  initializer?: Var | Expression
+  condition?: Expression
+  incrementor?: Expression
+  statement: Statement
+  locals: Table
+}
+// break文を表す型
+export type Break = Location & {
+  kind: SyntaxKind.Break
+}
+// continue文を表す型
+export type Continue = Location & {
+  kind: SyntaxKind.Continue
+}
+// 繰り返し処理を行う文を表す型（break・continue の対象になる文）
+export type IterationStatement = While | DoWhile | For
 
 // ------------------------------------------------------------
 // 以下、型定義を表す型
@@ -130,10 +420,12 @@ export type PropertyAssignment = Location & DeclarationBase & {
   initializer: Expression
 }
 // オブジェクトのプロパティを表す型（例: name: string）
+// クラスのフィールドの場合は、初期化の式を持つことができる（例: count: number = 0）
 export type PropertyDeclaration = Location & DeclarationBase & {
   kind: SyntaxKind.PropertyDeclaration
   name: Identifier
   typename?: TypeNode
+  initializer?: Expression
 }
 // 関数の型定義を表す型（例: (x: number) => string）
 export type SignatureDeclaration = Location & DeclarationBase & {
@@ -143,20 +435,60 @@ export type SignatureDeclaration = Location & DeclarationBase & {
   typename: TypeNode
   locals: Table
 }
+// 型引数を指定した型の参照を表す型（例: Box<number>, Pair<string, number>）
+// 型引数を指定しない型の参照は、識別子（Identifier）として表す
+export type TypeReference = Location & {
+  kind: SyntaxKind.TypeReference
+  typeName: Identifier
+  typeArguments: TypeNode[]
+}
+// 配列の型定義を表す型（例: number[], Array<number>）
+export type ArrayTypeNode = Location & {
+  kind: SyntaxKind.ArrayType
+  elementType: TypeNode
+}
+// タプルの型定義を表す型（例: [string, number]）
+export type TupleTypeNode = Location & {
+  kind: SyntaxKind.TupleType
+  elementTypes: TypeNode[]
+}
+// リテラル型の型定義を表す型（例: "on", 1, -1）
+// 負の数は、"-" の前置単項演算子の式として保持する
+export type LiteralTypeNode = Location & {
+  kind: SyntaxKind.LiteralType
+  literal: StringLiteral | NumericLiteral | BigIntLiteral | BooleanLiteral | NullLiteral | UndefinedLiteral | PrefixUnaryExpression
+}
+// ユニオン型の型定義を表す型（例: string | number）
+export type UnionTypeNode = Location & {
+  kind: SyntaxKind.UnionType
+  types: TypeNode[]
+}
+// インターセクション型の型定義を表す型（例: A & B）
+export type IntersectionTypeNode = Location & {
+  kind: SyntaxKind.IntersectionType
+  types: TypeNode[]
+}
 
 // ------------------------------------------------------------
 // 以下、関数の引数や戻り値を表す型
 
 // 関数の引数の型を表す型（例: (a: number)）
+// 省略可能な引数（a?: number）、デフォルト値を持つ引数（a: number = 0）、残余引数（...a: number[]）を表すこともできる
 export type Parameter = Location & DeclarationBase & {
   kind: SyntaxKind.Parameter
   name: Identifier
+  isOptional?: boolean  // "?" がついているかどうか
+  isRest?: boolean      // "..." がついているかどうか
   typename?: TypeNode
+  initializer?: Expression
 }
 // ジェネリック型の引数を表す型(例: <T>）
+// 制約（例: <T extends { length: number }>）と、デフォルトの型（例: <T = string>）を持つこともできる
 export type TypeParameter = Location & DeclarationBase & {
   kind: SyntaxKind.TypeParameter
   name: Identifier
+  constraint?: TypeNode
+  default?: TypeNode
 }
 
 // 関数の実行を表す型（例: foo()）
@@ -192,6 +524,15 @@ export type Symbol = {
   declarations: Declaration[]
   valueType?: Type
   typeType?: Type
+  // ジェネリック型エイリアスを型引数で具体化した型のキャッシュ（型引数の型の id を "," でつないだ文字列をキーとする）
+  // 同じ型引数で参照した場合に、同じ型になるようにする（例: Box<number> を2回参照しても同じ型）
+  instantiations?: Map<string, Type>
+  // 関数の戻り値の型を return文から推論している途中かどうか
+  // 推論中に return文の式から関数自身が参照された場合は "circular" とし、戻り値の型を any型とする
+  returnTypeResolution?: "resolving" | "circular"
+  // 型エイリアスの型を解析している途中かどうか
+  // 解析中に型エイリアス自身が参照された場合は "circular" とし、型エイリアスの型を error型とする
+  typeResolution?: "resolving" | "circular"
 }
 // Symbol型のオブジェクトを表す型
 export type ObjectSymbol = Symbol & {
@@ -206,34 +547,86 @@ export type InstantiatedSymbol = Symbol & {
 export type Table = Map<string, Symbol>
 // ファイル単位（モジュール）の情報を表す型
 // parserで返されるASTのルートノード
+// exports には、export された宣言のシンボルを登録する（locals と同じシンボルを使う）
 export type Module = Location & {
   kind: SyntaxKind.Module
+  fileName: string
   locals: Table
+  exports: Table
   statements: Statement[]
 }
 // idで型を識別する型
-export type SimpleType = { id: number }
+// ジェネリック型エイリアスを具体化した型は、型エイリアスのシンボルと型引数を持つ（例: Box<number> の Box と [number]）
+export type SimpleType = {
+  id: number
+  aliasSymbol?: Symbol
+  aliasTypeArguments?: Type[]
+}
 // プリミティブ型 (string, number, boolean, undefined など) を表します。
 export type PrimitiveType = SimpleType & {
   kind: Kind.Primitive
 }
 // 型の種類を表す型
-// プリミティブ型、オブジェクト型、関数型、型変数の4つの種類がある
+// プリミティブ型、オブジェクト型、関数型、型変数、配列型、タプル型、リテラル型、ユニオン型、インターセクション型、クラス型の10の種類がある
 export enum Kind {
   Primitive,
   Object,
   Function,
   TypeVariable,
+  Array,
+  Tuple,
+  Literal,
+  Union,
+  Intersection,
+  Class,
 }
 // オブジェクト型を表し、プロパティやメソッドを保持する
+// クラスのインスタンスの型の場合は、型を文字列にする際に使うクラス名を持つ
 export type ObjectType = SimpleType & {
   kind: Kind.Object
   members: Table
+  name?: string
+  isFresh?: boolean  // 式のオブジェクトリテラルから作成した型かどうか（余分なプロパティのチェックを行う）
+  regularType?: ObjectType  // 式のオブジェクトリテラルの型に対応する、余分なプロパティのチェックを行わない型
+}
+// 配列型を表し、要素の型を保持する（例: number[]）
+export type ArrayType = SimpleType & {
+  kind: Kind.Array
+  elementType: Type
+}
+// タプル型を表し、要素ごとの型を保持する（例: [string, number]）
+export type TupleType = SimpleType & {
+  kind: Kind.Tuple
+  elementTypes: Type[]
+}
+// リテラル型を表し、その値を保持する（例: "on", 1, 10n, true）
+export type LiteralType = SimpleType & {
+  kind: Kind.Literal
+  value: string | number | bigint | boolean
+}
+// ユニオン型を表し、いずれかの型であることを表す（例: string | number）
+export type UnionType = SimpleType & {
+  kind: Kind.Union
+  types: Type[]
+}
+// インターセクション型を表し、すべての型を満たすことを表す（例: A & B）
+export type IntersectionType = SimpleType & {
+  kind: Kind.Intersection
+  types: Type[]
+}
+// クラスの値（コンストラクタ）の型を表し、new で呼び出した際のシグネチャを保持する（例: typeof Point）
+// シグネチャの戻り値の型が、クラスのインスタンスの型になる
+export type ClassType = SimpleType & {
+  kind: Kind.Class
+  name: string
+  signature: Signature
 }
 // ジェネリック型などの型変数を表します
 export type TypeVariable = SimpleType & {
   name: string
   kind: Kind.TypeVariable
+  constraint?: Type  // extends で指定した制約の型
+  default?: Type     // 型引数を省略した場合に使うデフォルトの型
 }
 // 値（変数・関数）なのか型（インターフェース・型エイリアス）なのかを区別するための列挙型
 export enum Meaning {
@@ -241,6 +634,55 @@ export enum Meaning {
   Type,
 }
 // 型システムのコアであり、すべての型を表す型
-export type Type = PrimitiveType | ObjectType | FunctionType | TypeVariable
+export type Type = PrimitiveType | ObjectType | FunctionType | TypeVariable | ArrayType | TupleType | LiteralType | UnionType | IntersectionType | ClassType
 // ジェネリック型の型引数を変換するためのマッピング型
 export type Mapper = { sources: TypeVariable[], targets: Type[] }
+// 型チェックの設定を表す型
+export type CompilerOptions = {
+  // true の場合、null・undefined を他の型に代入できないようにする（false の場合は、どの型にも代入できる）
+  strictNullChecks?: boolean
+}
+
+// ------------------------------------------------------------
+// 以下、制御フローグラフを表す型
+// binder が関数（モジュール）の本体ごとに作成し、各文の flowNode と関数の endFlowNode に設定する
+// 関数の endFlowNode に到達できる場合は、return文を通らずに関数の末尾まで実行される
+// 各ノードは、直前に実行される位置のノード（antecedent）をたどることで、実行の経路を表す
+
+// 制御フローグラフのノードの種類を表す列挙型
+export enum FlowKind {
+  Start,           // 関数・モジュールの本体の開始位置
+  Unreachable,     // 到達できない位置（return・break・continue の後ろなど）
+  BranchLabel,     // 複数の経路が合流する位置（if文の後ろ、ループの後ろなど）
+  LoopLabel,       // ループの先頭（ループの前と、ループの末尾・continue からの経路が合流する）
+  TrueCondition,   // 条件式が true の場合に進む経路
+  FalseCondition,  // 条件式が false の場合に進む経路
+  Assignment,      // 変数への代入（初期化の式を持つ変数宣言を含む）
+}
+// 関数・モジュールの本体の開始位置を表すノード
+export type FlowStart = {
+  kind: FlowKind.Start
+  node: Function | ArrowFunction | Method | Constructor | Module
+}
+// 到達できない位置を表すノード
+export type FlowUnreachable = {
+  kind: FlowKind.Unreachable
+}
+// 複数の経路が合流する位置を表すノード
+export type FlowLabel = {
+  kind: FlowKind.BranchLabel | FlowKind.LoopLabel
+  antecedents: FlowNode[]
+}
+// 条件式の結果によって進む経路を表すノード（例: if (x) の then 側は x が true の経路）
+export type FlowCondition = {
+  kind: FlowKind.TrueCondition | FlowKind.FalseCondition
+  expression: Expression
+  antecedent: FlowNode
+}
+// 変数への代入を表すノード（代入した値の型によって、変数の型を絞り込む）
+export type FlowAssignment = {
+  kind: FlowKind.Assignment
+  node: Var | Assignment
+  antecedent: FlowNode
+}
+export type FlowNode = FlowStart | FlowUnreachable | FlowLabel | FlowCondition | FlowAssignment
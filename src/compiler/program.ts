@@ -0,0 +1,184 @@
+import { existsSync, readFileSync } from "node:fs";
+import * as path from "node:path";
+import { scanner } from "./scanner/index.js";
+import { parser } from "./parser/index.js";
+import { binder } from "./binder/index.js";
+import { checker } from "./checker/index.js";
+import { transform } from "./transform/index.js";
+import { emitter } from "./emitter/index.js";
+import { SyntaxKind } from "./parser/type.js";
+import type { Module, Diagnostic, CompilerOptions } from "./parser/type.js";
+import { error, createDiagnosticCollection, setDiagnosticCollection, setCurrentFileName, formatDiagnostic, formatDiagnosticsAsJson } from "./error.js";
+import type { DiagnosticFormatHost } from "./error.js";
+import { Diagnostics } from "./diagnosticMessages.js";
+
+// ファイルの読み込みを行う値の型
+// Program の外から渡すことで、ディスク以外（メモリ上のファイルなど）からも読み込むことができる
+export type CompilerHost = {
+  fileExists(fileName: string): boolean
+  readFile(fileName: string): string | undefined
+  getCurrentDirectory(): string
+}
+
+// 複数のファイルからなるプログラム全体を表す型
+export type Program = {
+  // 読み込んだモジュールの一覧（絶対パスのファイル名をキーとする）
+  modules: Map<string, Module>
+  // 発生したエラーの一覧（各エラーは発生したファイル名を持ち、ファイル名・位置の順に並ぶ）
+  getDiagnostics(): Diagnostic[]
+  // エラーを "file(line,col): error 2304: message" の形式に変換した一覧
+  formatDiagnostics(): string[]
+  // エラーの一覧を、CI などのツールで読み込むための JSON に変換した文字列
+  formatDiagnosticsAsJson(): string
+  // 各モジュールを JavaScript に変換した結果（出力先の .js のファイル名をキーとする）
+  emit(): Map<string, string>
+}
+
+// ディスクからファイルを読み込む CompilerHost を作成する関数
+export function createCompilerHost(): CompilerHost {
+  return {
+    fileExists: fileName => existsSync(fileName),
+    readFile: fileName => existsSync(fileName) ? readFileSync(fileName, "utf8") : undefined,
+    getCurrentDirectory: () => process.cwd(),
+  }
+}
+
+/**
+ * [全体像]
+ * 1. createProgram関数で、ルートのファイルから複数ファイルのプログラムの解析を開始する
+ * 2. 各ファイルを読み込んで構文解析し（loadModule）、import 宣言のモジュール名をファイル名に解決して（resolveModuleName）、import 元のファイルも再帰的に読み込む
+ * 3. すべてのファイルを読み込んだ後、各ファイルの名前解決（binder）を行い、export された宣言をモジュールの exports に登録する
+ * 4. import 宣言をたどって、循環した import がないかをチェックする（checkCircularImports）
+ * 5. 各ファイルの型チェック（checker）を行う。import した名前は、checker で import 元のモジュールの exports から解決する
+ * 6. エラーはこのプログラム専用の DiagnosticCollection に、発生したファイル名とともに記録する
+ *    エラーは番号・重要度（error・warning など）・範囲を持ち、ファイル名・位置の順に並べて、同じエラーを1件にまとめる
+ * 7. emit で各ファイルを JavaScript に変換する
+ */
+export function createProgram(rootFileNames: string[], options: CompilerOptions = {}, host: CompilerHost = createCompilerHost()): Program {
+  const diagnostics = createDiagnosticCollection()
+  setDiagnosticCollection(diagnostics)
+  const currentDirectory = host.getCurrentDirectory()
+  const modules = new Map<string, Module>()
+  // エラーのコードフレームを表示するために、各ファイルのソースコードを保持する
+  const sources = new Map<string, string>()
+
+  for (const rootFileName of rootFileNames) {
+    const fileName = path.resolve(currentDirectory, rootFileName)
+    if (!loadModule(fileName)) {
+      setCurrentFileName(fileName)
+      error(0, Diagnostics.File_0_not_found, rootFileName)
+    }
+  }
+  for (const [fileName, module] of modules) {
+    setCurrentFileName(fileName)
+    binder(module)
+  }
+  checkCircularImports()
+  // checker は import 元のモジュールの宣言も解析するため、エラーのファイル名はノードの親をたどって求める
+  // 親をたどれないノードのエラーは、型チェックしているモジュールのエラーとする
+  for (const [fileName, module] of modules) {
+    setCurrentFileName(fileName)
+    checker(module, options)
+  }
+  setCurrentFileName(undefined)
+  setDiagnosticCollection(undefined)
+  const programDiagnostics = diagnostics.getDiagnostics()
+  // エラーの表示に使う、各ファイルのソースコードと表示用のファイル名
+  const formatHost: DiagnosticFormatHost = {
+    getSourceText: fileName => sources.get(fileName),
+    getDisplayFileName,
+  }
+
+  return {
+    modules,
+    getDiagnostics: () => programDiagnostics,
+    formatDiagnostics: () => programDiagnostics.map(d => formatDiagnostic(d, formatHost)),
+    formatDiagnosticsAsJson: () => formatDiagnosticsAsJson(programDiagnostics, formatHost),
+    emit,
+  }
+
+  // ファイルを読み込んで構文解析し、import 元のファイルも再帰的に読み込む関数
+  // すでに読み込んだファイルの場合は、同じモジュールを返す（循環した import でも無限に読み込まない）
+  function loadModule(fileName: string): Module | undefined {
+    const loaded = modules.get(fileName)
+    if (loaded) {
+      return loaded
+    }
+    const code = host.readFile(fileName)
+    if (code === undefined) {
+      return undefined
+    }
+    const module = parser(scanner(code), fileName)
+    modules.set(fileName, module)
+    sources.set(fileName, code)
+    // import 元のファイルを読み込み、import 宣言に import 元のモジュールを設定する
+    for (const statement of module.statements) {
+      if (statement.kind !== SyntaxKind.Import) continue
+      const moduleName = statement.moduleSpecifier.value
+      const resolvedFileName = resolveModuleName(moduleName, fileName)
+      statement.module = resolvedFileName ? loadModule(resolvedFileName) : undefined
+      if (!statement.module) {
+        setCurrentFileName(fileName)
+        error(statement.moduleSpecifier, Diagnostics.Cannot_find_module_0, moduleName)
+      }
+    }
+    return module
+  }
+
+  // import 宣言のモジュール名を、import 元のファイル名に解決する関数
+  // 相対パス（"./" または "../" から始まる名前）のみに対応し、import 宣言を書いたファイルのディレクトリを基準にする
+  // 拡張子を省略した場合は .ts を補い、ディレクトリの場合は index.ts とする（.js と書いた場合は対応する .ts とする）
+  // 例）"./x" は x.ts または x/index.ts
+  function resolveModuleName(moduleName: string, containingFile: string): string | undefined {
+    if (!moduleName.startsWith("./") && !moduleName.startsWith("../")) {
+      return undefined
+    }
+    const candidate = path.resolve(path.dirname(containingFile), moduleName)
+    const candidates = candidate.endsWith(".js")
+      ? [candidate.slice(0, -".js".length) + ".ts"]
+      : [candidate, candidate + ".ts", path.join(candidate, "index.ts")]
+    return candidates.find(fileName => fileName.endsWith(".ts") && host.fileExists(fileName))
+  }
+
+  // import 宣言をたどって、循環した import がないかをチェックする関数
+  // 深さ優先でモジュールをたどり、たどっている途中のモジュールを再び import した場合はエラー
+  // 例）a.ts が b.ts を import し、b.ts が a.ts を import している場合
+  function checkCircularImports() {
+    const visited = new Set<Module>()
+    const stack: Module[] = []
+    for (const module of modules.values()) {
+      visit(module)
+    }
+    function visit(module: Module) {
+      if (visited.has(module)) return
+      visited.add(module)
+      stack.push(module)
+      for (const statement of module.statements) {
+        if (statement.kind !== SyntaxKind.Import || !statement.module) continue
+        const index = stack.indexOf(statement.module)
+        if (index >= 0) {
+          const cycle = [...stack.slice(index), statement.module].map(m => getDisplayFileName(m.fileName))
+          error(statement, Diagnostics.Circular_import_detected_Colon_0, cycle.join(" -> "))
+        }
+        else {
+          visit(statement.module)
+        }
+      }
+      stack.pop()
+    }
+  }
+
+  // 各モジュールの型情報を削除し、JavaScript のコードに変換する関数
+  function emit(): Map<string, string> {
+    const outputs = new Map<string, string>()
+    for (const [fileName, module] of modules) {
+      outputs.set(fileName.replace(/\.ts$/, ".js"), emitter(transform(module.statements), module.trailingComments))
+    }
+    return outputs
+  }
+
+  // エラーの表示に使う、カレントディレクトリからの相対パスのファイル名を取得する関数
+  function getDisplayFileName(fileName: string) {
+    return path.relative(currentDirectory, fileName)
+  }
+}
@@ -1,27 +1,123 @@
-import { Token, Scanner } from "./type.js";
+import { Token, Scanner, Comment, CommentKind } from "./type.js";
+import { error } from "../error.js";
+import { Diagnostics } from "../diagnosticMessages.js";
 
 const keywords = {
   "function": Token.Function,
   "var": Token.Var,
+  "let": Token.Let,
+  "const": Token.Const,
   "type": Token.Type,
   "return": Token.Return,
+  "if": Token.If,
+  "else": Token.Else,
+  "while": Token.While,
+  "do": Token.Do,
+  "for": Token.For,
+  "break": Token.Break,
+  "continue": Token.Continue,
+  "interface": Token.Interface,
+  "extends": Token.Extends,
+  "class": Token.Class,
+  "new": Token.New,
+  "this": Token.This,
+  "export": Token.Export,
+  "import": Token.Import,
+  "true": Token.True,
+  "false": Token.False,
+  "null": Token.Null,
+  "undefined": Token.Undefined,
+  "typeof": Token.TypeOf,
+}
+
+// 記号のコードの文字列と、そのトークンの対応
+const punctuations = {
+  "=": Token.Equals,
+  "=>": Token.Arrow,
+  ";": Token.Semicolon,
+  ",": Token.Comma,
+  ":": Token.Colon,
+  "{": Token.OpenBrace,
+  "}": Token.CloseBrace,
+  "(": Token.OpenParen,
+  ")": Token.CloseParen,
+  "[": Token.OpenBracket,
+  "]": Token.CloseBracket,
+  ".": Token.Dot,
+  "...": Token.DotDotDot,
+  "?": Token.Question,
+  "<": Token.LessThan,
+  ">": Token.GreaterThan,
+  "<=": Token.LessThanEquals,
+  ">=": Token.GreaterThanEquals,
+  "==": Token.EqualsEquals,
+  "===": Token.EqualsEqualsEquals,
+  "!=": Token.ExclamationEquals,
+  "!==": Token.ExclamationEqualsEquals,
+  "+": Token.Plus,
+  "-": Token.Minus,
+  "*": Token.Asterisk,
+  "**": Token.AsteriskAsterisk,
+  "/": Token.Slash,
+  "%": Token.Percent,
+  "<<": Token.LessThanLessThan,
+  ">>": Token.GreaterThanGreaterThan,
+  ">>>": Token.GreaterThanGreaterThanGreaterThan,
+  "&": Token.Ampersand,
+  "|": Token.Bar,
+  "^": Token.Caret,
+  "&&": Token.AmpersandAmpersand,
+  "||": Token.BarBar,
+  "??": Token.QuestionQuestion,
+  "!": Token.Exclamation,
+  "~": Token.Tilde,
+}
+
+// トークンの種類から、予約語・記号のコードの文字列を引くための対応
+const tokenStrings = new Map(Object.entries({ ...keywords, ...punctuations }).map(([text, token]) => [token, text]))
+
+// 予約語・記号のトークンを、コードの文字列に変換する関数（エラーメッセージで使う）
+// 例）Token.CloseParen は ")"、Token.While は "while"（識別子・リテラルなど、文字列が決まらないトークンは undefined）
+export function tokenToString(token: Token): string | undefined {
+  return tokenStrings.get(token)
+}
+
+// 数値リテラルの接頭辞と、その基数の対応
+const radixPrefixes = {
+  "x": 16,
+  "b": 2,
+  "o": 8,
 }
 
 /**
  * [全体像]
  * 1. scanner関数で文字列コードの字句解析（トークン化）処理を開始する
  * 2. scan関数を呼び出すたびに、現在の position から次のトークンを判別し、種類（token）と内容（text）を記録する
- * 3. 空白・文字列・数値・識別子・記号などに応じて、それぞれの条件分岐と補助関数（scanForward など）を用いて位置を進め、適切なトークンを設定する
- * 4. 識別子については予約語（keywords）との一致も確認し、適切なトークン種別を判別する
- * 5. position(), text(), token() により現在のスキャン結果を外部から安全に取得できるようにする
+ * 3. 空白やコメント（トリビア）を読み飛ばし、コメントは直前のトークンの後続コメント（trailing）か次のトークンの先行コメント（leading）として記録する
+ * 4. 文字列・数値・識別子・記号などに応じて、それぞれの条件分岐と補助関数（scanForward など）を用いて位置を進め、適切なトークンを設定する
+ * 5. 識別子については予約語（keywords）との一致も確認し、適切なトークン種別を判別する
+ * 6. position(), tokenStart(), tokenFullStart(), text(), token(), hasPrecedingLineBreak(), leadingComments(), trailingComments() により現在のスキャン結果を外部から安全に取得できるようにする
+ * 7. tokenToString により、予約語・記号のトークンを元のコードの文字列に変換する（構文エラーのメッセージで使う）
  */
 export const scanner = (code: string): Scanner => {
-  // コードのどの位置を解析しているかを判別する値
+  // コードのどの位置を解析しているかを判別する値（現在のトークンの終了位置）
   let position = 0;
+  // 現在のトークンの直前にある空白・コメントを含めた開始位置（前のトークンの終了位置）
+  let tokenFullStart = 0;
+  // 現在のトークンの開始位置（空白・コメントを含まない）
+  let tokenStart = 0;
   // 解析したコードのテキストを格納する値（変数名や文字列など）
   let text = "";
   // 解析したトークンを格納する値
   let token = Token.BOF;
+  // 文字列・テンプレートリテラルのエスケープシーケンスを解釈した値や、数値リテラルの区切り文字を除いた値を格納する値
+  let value = "";
+  // 現在のトークンの直前にあるコメント（前のトークンとは別の行にあるもの）を格納する値
+  let leadingComments: Comment[] = [];
+  // 前のトークンと同じ行にあるコメントを格納する値
+  let trailingComments: Comment[] = [];
+  // 前のトークンと現在のトークンの間に改行があるかどうか（ファイルの先頭のトークンは常に true）
+  let precedingLineBreak = false;
 
   // 解析している位置が、コードの長さを超えていないか（最後まで到達していないか）を判別
   // 解析している位置が、引数で受けた解析をする関数の条件に一致しているかを判別
@@ -32,48 +128,365 @@ export const scanner = (code: string): Scanner => {
     }
   }
 
-  function scan() {
-    // 現在解析している位置が、空白・タブ・バックスペース・改行かどうかを判別する
-    scanForward(isIgnorableCharacter)
+  // 空白・タブ・バックスペース・改行とコメントを読み飛ばし、コメントを leadingComments / trailingComments に振り分ける関数
+  function scanTrivia() {
+    leadingComments = []
+    trailingComments = []
+    // ファイルの先頭にあるコメントは、全て最初のトークンの先行コメントとして扱う
+    precedingLineBreak = token === Token.BOF
+    while (position < code.length) {
+      const charactor = code.charAt(position)
+      if (charactor === "\n") {
+        precedingLineBreak = true
+        position++
+      }
+      else if (isIgnorableCharacter(charactor)) {
+        position++
+      }
+      // 1行コメントの場合は、改行の直前までをコメントとして扱う
+      else if (charactor === "/" && code.charAt(position + 1) === "/") {
+        const start = position
+        scanForward(c => c !== "\n")
+        addComment(CommentKind.SingleLine, start, precedingLineBreak)
+      }
+      // 複数行コメントの場合は、"*/" までをコメントとして扱う
+      else if (charactor === "/" && code.charAt(position + 1) === "*") {
+        const start = position
+        position += 2
+        while (position < code.length && !(code.charAt(position) === "*" && code.charAt(position + 1) === "/")) {
+          position++
+        }
+        // "*/" が見つからなかった場合は、ファイルの終わりまでをコメントとして扱いエラーを報告する
+        if (position < code.length) {
+          position += 2
+        }
+        else {
+          error({ start, end: position }, Diagnostics.Unterminated_block_comment_expected)
+        }
+        addComment(CommentKind.MultiLine, start, precedingLineBreak)
+      }
+      else {
+        break
+      }
+    }
+  }
+
+  // 読み飛ばしたコメントを記録する関数
+  // 前のトークンと同じ行にあるコメントは trailingComments、それ以外は leadingComments に追加する
+  function addComment(kind: CommentKind, start: number, precedingLineBreak: boolean) {
+    const comment = {
+      kind,
+      text: code.slice(start, position),
+      start,
+      end: position,
+      hasTrailingNewLine: /^[ \t\b]*(\n|$)/.test(code.slice(position)),
+    }
+    if (precedingLineBreak) {
+      leadingComments.push(comment)
+    }
+    else {
+      trailingComments.push(comment)
+    }
+  }
+
+  // 文字列リテラルを閉じクォーテーションまで解析し、エスケープシーケンスを解釈した値を返す関数
+  function scanString(quote: string): string {
     const start = position
+    position++
+    let result = ""
+    while (true) {
+      // 閉じクォーテーションの前にファイルの終わりか改行に到達した場合はエラー
+      if (position >= code.length || code.charAt(position) === "\n") {
+        error({ start, end: position }, Diagnostics.Unterminated_string_literal)
+        break
+      }
+      const charactor = code.charAt(position)
+      if (charactor === quote) {
+        position++
+        break
+      }
+      if (charactor === "\\") {
+        result += scanEscapeSequence()
+        continue
+      }
+      result += charactor
+      position++
+    }
+    return result
+  }
 
-    // 現在解析している位置が、最後かどうかを判別
-    if (position === code.length) {
-      token = Token.EOF
+  // テンプレートリテラルの文字列部分を "${" または "`" まで解析し、トークンを設定する関数
+  // start: 文字列部分の直前にある "`" または "}" の位置
+  // isHead: "`" から始まる（テンプレートリテラルの先頭である）かどうか
+  function scanTemplate(start: number, isHead: boolean) {
+    const contentStart = position
+    let contentEnd = position
+    let result = ""
+    while (true) {
+      // 閉じバッククォートの前にファイルの終わりに到達した場合はエラー
+      if (position >= code.length) {
+        error({ start, end: position }, Diagnostics.Unterminated_template_literal)
+        contentEnd = position
+        token = isHead ? Token.NoSubstitutionTemplateLiteral : Token.TemplateTail
+        break
+      }
+      const charactor = code.charAt(position)
+      if (charactor === "`") {
+        contentEnd = position
+        position++
+        token = isHead ? Token.NoSubstitutionTemplateLiteral : Token.TemplateTail
+        break
+      }
+      if (charactor === "$" && code.charAt(position + 1) === "{") {
+        contentEnd = position
+        position += 2
+        token = isHead ? Token.TemplateHead : Token.TemplateMiddle
+        break
+      }
+      if (charactor === "\\") {
+        result += scanEscapeSequence()
+        continue
+      }
+      result += charactor
+      position++
     }
-    // 現在解析している位置が、ダブルクォーテーションかどうかを判別
-    // ダブルクォーテーションで囲まれた値を文字列として判定
-    else if (code.charAt(position) === '"') {
+    // テンプレートリテラルの場合は、区切り文字を含まない元の文字列を取得
+    text = code.slice(contentStart, contentEnd)
+    value = result
+  }
+
+  // 数値リテラル（10進数・小数・指数表記・16進数・2進数・8進数・BigInt）を解析し、トークンを設定する関数
+  // value には区切り文字 "_" と BigInt の "n" を除いた、Number() や BigInt() で解釈可能な文字列を格納する
+  function scanNumber(start: number) {
+    let isInteger = true
+    // "0x"・"0b"・"0o" から始まる場合は、それぞれ16進数・2進数・8進数として解析する
+    const radix = code.charAt(position) === "0" ? radixPrefixes[code.charAt(position + 1).toLowerCase() as keyof typeof radixPrefixes] : undefined
+    if (radix) {
+      const prefix = code.slice(position, position + 2)
+      position += 2
+      const digits = scanDigits(c => isNumber(c) ? +c < radix : isHexDigit(c) && radix === 16)
+      if (!digits) {
+        error({ start, end: position }, radix === 16 ? Diagnostics.Hexadecimal_digit_expected : radix === 2 ? Diagnostics.Binary_digit_expected : Diagnostics.Octal_digit_expected)
+      }
+      value = prefix + (digits || "0")
+    }
+    else {
+      value = scanDigits(isNumber)
+      // 小数点以下を解析する
+      if (code.charAt(position) === ".") {
+        position++
+        value += "." + scanDigits(isNumber)
+        isInteger = false
+      }
+      // 指数表記（例: 1e10, 2.5E-3）を解析する
+      if (code.charAt(position) === "e" || code.charAt(position) === "E") {
+        position++
+        value += "e"
+        if (code.charAt(position) === "+" || code.charAt(position) === "-") {
+          value += code.charAt(position)
+          position++
+        }
+        const exponent = scanDigits(isNumber)
+        if (!exponent) {
+          error({ start, end: position }, Diagnostics.Digit_expected)
+        }
+        value += exponent || "0"
+        isInteger = false
+      }
+    }
+    token = Token.NumericLiteral
+    // 末尾の "n" は BigInt として解析する
+    if (code.charAt(position) === "n") {
       position++
-      scanForward(isDoubleQuotation)
+      if (!isInteger) {
+        error({ start, end: position }, Diagnostics.A_bigint_literal_must_be_an_integer)
+        value = "0"
+      }
+      token = Token.BigIntLiteral
+    }
+    // 数値の直後に識別子が続いている場合はエラー（例: 3in, 10px）
+    if (isIdentifierStart(code.charAt(position))) {
+      error(position, Diagnostics.An_identifier_or_keyword_cannot_immediately_follow_a_numeric_literal)
+    }
+  }
 
-      // ダブルクォーテーションが閉じられているかを判別
-      if (code.charAt(position) !== '"') {
-          throw new Error("unclosed string literal")
+  // 区切り文字 "_" を含む数字の並びを解析し、区切り文字を除いた数字の文字列を返す関数
+  // 区切り文字は数字と数字の間にのみ1つだけ書くことができる（例: 1_000_000）
+  function scanDigits(isDigit: (charactor: string) => boolean): string {
+    let result = ""
+    let isPreviousDigit = false
+    let isPreviousSeparator = false
+    while (position < code.length) {
+      const charactor = code.charAt(position)
+      if (charactor === "_") {
+        if (isPreviousSeparator) {
+          error({ start: position, end: position + 1 }, Diagnostics.Multiple_consecutive_numeric_separators_are_not_permitted)
+        }
+        else if (!isPreviousDigit) {
+          error({ start: position, end: position + 1 }, Diagnostics.Numeric_separators_are_not_allowed_here)
+        }
+        isPreviousDigit = false
+        isPreviousSeparator = true
+      }
+      else if (isDigit(charactor)) {
+        result += charactor
+        isPreviousDigit = true
+        isPreviousSeparator = false
       }
       else {
+        break
+      }
+      position++
+    }
+    if (isPreviousSeparator) {
+      error({ start: position - 1, end: position }, Diagnostics.Numeric_separators_are_not_allowed_here)
+    }
+    return result
+  }
+
+  // "\" から始まるエスケープシーケンスを解析し、解釈した文字を返す関数
+  function scanEscapeSequence(): string {
+    const start = position
+    position++
+    const charactor = code.charAt(position)
+    position++
+    switch (charactor) {
+      case "n": return "\n"
+      case "t": return "\t"
+      case "r": return "\r"
+      case "b": return "\b"
+      case "f": return "\f"
+      case "v": return "\v"
+      case "0": return "\0"
+      case "x": return scanHexEscape(start, 2)
+      case "u":
+        // "\u{...}" の形式の場合は、"}" までを16進数のコードポイントとして解釈する
+        if (code.charAt(position) === "{") {
+          position++
+          const digitsStart = position
+          scanForward(isHexDigit)
+          const codePoint = parseInt(code.slice(digitsStart, position), 16)
+          if (position === digitsStart || code.charAt(position) !== "}" || codePoint > 0x10FFFF) {
+            error({ start, end: position }, Diagnostics.Invalid_Unicode_escape_sequence)
+            return ""
+          }
+          position++
+          return String.fromCodePoint(codePoint)
+        }
+        return scanHexEscape(start, 4)
+      // 行継続（"\" の直後の改行）の場合は、改行を値に含めない
+      case "\r":
+        if (code.charAt(position) === "\n") {
           position++
+        }
+        return ""
+      case "\n":
+        return ""
+      // ファイルの終わりの場合は、呼び出し元で未終了のエラーを報告する
+      case "":
+        position = code.length
+        return ""
+      // "\\", "\"", "\'", "\`" などは、"\" の後ろの文字そのものとして扱う
+      default:
+        return charactor
+    }
+  }
+
+  // "\x" や "\u" の後ろに続く、決まった桁数の16進数を解析する関数
+  function scanHexEscape(start: number, digits: number): string {
+    const hex = code.slice(position, position + digits)
+    if (hex.length !== digits || !Array.from(hex).every(isHexDigit)) {
+      error({ start, end: position }, Diagnostics.Hexadecimal_digit_expected)
+      return ""
+    }
+    position += digits
+    return String.fromCharCode(parseInt(hex, 16))
+  }
+
+  // テンプレートリテラルの "${...}" の "}" を読んだ後、続きの文字列部分を解析し直す関数
+  // parser が "}" をテンプレートの区切りとして扱う場合に呼び出す
+  function reScanTemplateToken() {
+    tokenStart = position - 1
+    scanTemplate(tokenStart, false)
+  }
+
+  // 記号の後ろに続く文字によって、複数文字の演算子かどうかを判別する関数
+  // candidates: 後ろに続く文字列とトークンの組み合わせ（長いものから順に判別する）
+  // fallback: どの候補にも一致しなかった場合のトークン
+  function scanOperator(candidates: [string, Token][], fallback: Token): Token {
+    for (const [rest, candidate] of candidates) {
+      if (code.startsWith(rest, position)) {
+        position += rest.length
+        return candidate
       }
+    }
+    return fallback
+  }
+
+  // ">" を読んだ後、続く文字によって ">="・">>"・">>>" の演算子として解析し直す関数
+  // parser が ">" を型引数の閉じ括弧ではなく二項演算子として扱う場合に呼び出す
+  function reScanGreaterToken() {
+    if (token === Token.GreaterThan) {
+      token = scanOperator([[">>", Token.GreaterThanGreaterThanGreaterThan], [">", Token.GreaterThanGreaterThan], ["=", Token.GreaterThanEquals]], Token.GreaterThan)
+      text = code.slice(tokenStart, position)
+    }
+  }
+
+  // 現在の状態を保存した上で引数の関数を実行し、実行後にスキャナーの状態を元に戻す関数
+  // parser がトークンを先読みして、解析方法を判別する場合に使う
+  function lookAhead<T>(callback: () => T): T {
+    const saved = { position, tokenFullStart, tokenStart, text, value, token, leadingComments, trailingComments, precedingLineBreak }
+    const result = callback()
+    ;({ position, tokenFullStart, tokenStart, text, value, token, leadingComments, trailingComments, precedingLineBreak } = saved)
+    return result
+  }
+
+  function scan() {
+    // ファイルの終わりに到達した後は、トークンとコメントをそのまま保持し、位置のみファイルの終わりに揃える
+    if (token === Token.EOF) {
+      tokenFullStart = tokenStart = position
+      return
+    }
+    tokenFullStart = position
+    // 現在解析している位置が、空白・タブ・バックスペース・改行・コメントかどうかを判別する
+    scanTrivia()
+    const start = tokenStart = position
+
+    // 現在解析している位置が、最後かどうかを判別
+    if (position === code.length) {
+      text = ""
+      token = Token.EOF
+    }
+    // 現在解析している位置が、ダブルクォーテーションかシングルクォーテーションかどうかを判別
+    // クォーテーションで囲まれた値を文字列として判定
+    else if (isQuotation(code.charAt(position))) {
+      value = scanString(code.charAt(position))
 
-      // ダブルクォーテーションで囲まれた文字列を取得
+      // クォーテーションを含めた元の文字列を取得
       text = code.slice(start, position)
       token = Token.StringLiteral
     }
-    // 現在解析している位置が、数値かどうかを判別
-    else if (/[0-9]/.test(code.charAt(position))) {
-      scanForward(isNumber)
+    // 現在解析している位置が、バッククォートかどうかを判別
+    // バッククォートから "${" または "`" までをテンプレートリテラルの文字列部分として判定
+    else if (code.charAt(position) === "`") {
+      position++
+      scanTemplate(start, true)
+    }
+    // 現在解析している位置が、数値（".5" のような小数点から始まるものを含む）かどうかを判別
+    else if (isNumber(code.charAt(position)) || (code.charAt(position) === "." && isNumber(code.charAt(position + 1)))) {
+      scanNumber(start)
 
-      // 数値の値を取得
+      // 数値の元のコードの文字列を取得
       text = code.slice(start, position)
-      token = Token.NumericLiteral
     }
-    // 現在解析している位置が、英数字またはアンダーバーかどうかを判別
-    else if (/[_a-zA-Z]/.test(code.charAt(position))) {
+    // 現在解析している位置が、識別子の先頭に使える文字（英字・アンダーバー・ドル記号）かどうかを判別
+    else if (isIdentifierStart(code.charAt(position))) {
       scanForward(isAlphaNumeral)
 
       // 識別子の値を取得
       text = code.slice(start, position)
-      token = text in keywords ? keywords[text as keyof typeof keywords] : Token.Identifier
+      // "constructor" などの Object のプロパティ名を予約語と誤らないよう、keywords 自身のプロパティかどうかで判別する
+      token = Object.prototype.hasOwnProperty.call(keywords, text) ? keywords[text as keyof typeof keywords] : Token.Identifier
     }
     // 現在解析している位置が、ここまでの条件に当てはまらない値の場合
     else {
@@ -86,7 +499,18 @@ export const scanner = (code: string): Scanner => {
                   token = Token.Arrow
                   break
               }
-              token = Token.Equals; break
+              token = scanOperator([["==", Token.EqualsEqualsEquals], ["=", Token.EqualsEquals]], Token.Equals); break
+          case '!': token = scanOperator([["==", Token.ExclamationEqualsEquals], ["=", Token.ExclamationEquals]], Token.Exclamation); break
+          case '+': token = Token.Plus; break
+          case '-': token = Token.Minus; break
+          case '*': token = scanOperator([["*", Token.AsteriskAsterisk]], Token.Asterisk); break
+          case '/': token = Token.Slash; break
+          case '%': token = Token.Percent; break
+          case '&': token = scanOperator([["&", Token.AmpersandAmpersand]], Token.Ampersand); break
+          case '|': token = scanOperator([["|", Token.BarBar]], Token.Bar); break
+          case '^': token = Token.Caret; break
+          case '~': token = Token.Tilde; break
+          case '?': token = scanOperator([["?", Token.QuestionQuestion]], Token.Question); break
           case ',': token = Token.Comma; break
           case ';': token = Token.Semicolon; break
           case ":": token = Token.Colon; break
@@ -94,10 +518,16 @@ export const scanner = (code: string): Scanner => {
           case "}": token = Token.CloseBrace; break
           case "(": token = Token.OpenParen; break
           case ")": token = Token.CloseParen; break
-          case "<": token = Token.LessThan; break
+          case "[": token = Token.OpenBracket; break
+          case "]": token = Token.CloseBracket; break
+          case ".": token = scanOperator([["..", Token.DotDotDot]], Token.Dot); break
+          case "<": token = scanOperator([["<", Token.LessThanLessThan], ["=", Token.LessThanEquals]], Token.LessThan); break
+          // ">=" や ">>" は型引数の閉じ括弧（例: Box<Box<number>>）と区別するため、parser が reScanGreaterToken で解析し直す
           case ">": token = Token.GreaterThan; break
           default: token = Token.Unknown; break
       }
+      // 記号の値を取得
+      text = code.slice(start, position)
     }
   };
 
@@ -106,9 +536,18 @@ export const scanner = (code: string): Scanner => {
   // 2. 外部から値を変更されないようにするため
   return {
     scan,
+    reScanTemplateToken,
+    reScanGreaterToken,
+    lookAhead,
     position: () => position,
+    tokenStart: () => tokenStart,
+    tokenFullStart: () => tokenFullStart,
     text: () => text,
+    value: () => value,
     token: () => token,
+    hasPrecedingLineBreak: () => precedingLineBreak,
+    leadingComments: () => leadingComments,
+    trailingComments: () => trailingComments,
   }
 };
 
@@ -117,9 +556,14 @@ const isIgnorableCharacter = (charactor: string): boolean => {
   return /[ \t\b\n]/.test(charactor);
 }
 
-// 現在解析している位置が、ダブルクォーテーションかどうかを判別する関数
-const isDoubleQuotation = (charactor: string): boolean => {
-  return /[^\"]/.test(charactor)
+// 現在解析している位置が、ダブルクォーテーションかシングルクォーテーションかどうかを判別する関数
+const isQuotation = (charactor: string): boolean => {
+  return charactor === '"' || charactor === "'"
+}
+
+// 現在解析している位置が、16進数の数字かどうかを判別する関数
+const isHexDigit = (charactor: string): boolean => {
+  return /[0-9a-fA-F]/.test(charactor);
 }
 
 // 現在解析している位置が、数値かどうかを判別する関数
@@ -127,7 +571,12 @@ const isNumber = (charactor: string): boolean => {
   return /[0-9]/.test(charactor);
 }
 
-// 現在解析している位置が、英数字またはアンダーバーかどうかを判別
+// 現在解析している位置が、識別子の先頭に使える文字かどうかを判別する関数
+const isIdentifierStart = (charactor: string): boolean => {
+  return /[_$a-zA-Z]/.test(charactor);
+}
+
+// 現在解析している位置が、英数字・アンダーバー・ドル記号かどうかを判別する関数（識別子の2文字目以降に使う）
 const isAlphaNumeral = (charactor: string): boolean => {
-  return /[_a-zA-Z]/.test(charactor);
+  return /[_$a-zA-Z0-9]/.test(charactor);
 }
\ No newline at end of file
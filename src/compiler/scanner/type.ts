@@ -2,11 +2,37 @@
 export enum Token {
   Function,         // 関数
   Var,              // 変数
+  Let,              // let
+  Const,            // const
   Type,             // 型
   Return,           // 戻り値
+  If,               // if
+  Else,             // else
+  While,            // while
+  Do,               // do
+  For,              // for
+  Break,            // break
+  Continue,         // continue
+  Interface,        // interface
+  Extends,          // extends
+  Class,            // class
+  New,              // new
+  This,             // this
+  Export,           // export
+  Import,           // import
+  True,             // true
+  False,            // false
+  Null,             // null
+  Undefined,        // undefined
+  TypeOf,           // typeof
   Equals,           // 代入
   NumericLiteral,   // 数値
+  BigIntLiteral,    // BigInt（例: 10n）
   StringLiteral,    // 文字列
+  NoSubstitutionTemplateLiteral, // 置換を含まないテンプレートリテラル（`...`）
+  TemplateHead,     // テンプレートリテラルの先頭（`...${）
+  TemplateMiddle,   // テンプレートリテラルの途中（}...${）
+  TemplateTail,     // テンプレートリテラルの末尾（}...`）
   Identifier,       // 識別子
   Newline,          // 改行
   Semicolon,        // セミコロン
@@ -18,17 +44,69 @@ export enum Token {
   CloseBrace,       // }
   OpenParen,        // (
   CloseParen,       // )
+  OpenBracket,      // [
+  CloseBracket,     // ]
+  Dot,              // .
+  DotDotDot,        // ...
+  Question,         // ?
   LessThan,         // <
   GreaterThan,      // >
+  LessThanEquals,   // <=
+  GreaterThanEquals, // >=
+  EqualsEquals,     // ==
+  EqualsEqualsEquals, // ===
+  ExclamationEquals, // !=
+  ExclamationEqualsEquals, // !==
+  Plus,             // +
+  Minus,            // -
+  Asterisk,         // *
+  AsteriskAsterisk, // **
+  Slash,            // /
+  Percent,          // %
+  LessThanLessThan, // <<
+  GreaterThanGreaterThan, // >>
+  GreaterThanGreaterThanGreaterThan, // >>>
+  Ampersand,        // &
+  Bar,              // |
+  Caret,            // ^
+  AmpersandAmpersand, // &&
+  BarBar,           // ||
+  QuestionQuestion, // ??
+  Exclamation,      // !
+  Tilde,            // ~
   Unknown,          // 不明
   BOF,              // 開始
   EOF,              // 終了
 }
 
+// コメントの種類を管理
+export enum CommentKind {
+  SingleLine,       // 1行コメント（// ...）
+  MultiLine,        // 複数行コメント（/* ... */）
+}
+
+// コメント（トリビア）の情報を表す型
+export type Comment = {
+  kind: CommentKind
+  text: string                  // "//" や "/* */" を含めたコメントの文字列
+  start: number                 // コメントの開始位置
+  end: number                   // コメントの終了位置
+  hasTrailingNewLine: boolean   // コメントの後ろが改行（またはファイル終端）かどうか
+}
+
 // scannerで返される各種値の型
 export type Scanner = {
   scan(): void
-  position: () => number
+  reScanTemplateToken(): void
+  reScanGreaterToken(): void
+  lookAhead<T>(callback: () => T): T
+  position: () => number        // 現在のトークンの終了位置
+  tokenStart: () => number      // 現在のトークンの開始位置（空白・コメントを含まない）
+  tokenFullStart: () => number  // 現在のトークンの直前の空白・コメントを含めた開始位置（前のトークンの終了位置）
   text: () => string
+  value: () => string
   token: () => Token
+  hasPrecedingLineBreak: () => boolean  // 前のトークンと現在のトークンの間に改行があるかどうか
+  leadingComments: () => Comment[]
+  trailingComments: () => Comment[]
 }
@@ -1,4 +1,4 @@
-import { Statement, Expression, SyntaxKind, PropertyAssignment, Parameter } from '../parser/type.js'
+import { Statement, Expression, SyntaxKind, PropertyAssignment, Parameter, Var, Function, AssignmentTarget, Class, ClassElement, Constructor, Import, ImportSpecifier } from '../parser/type.js'
 
 /**
  * [全体像]
@@ -6,7 +6,9 @@ import { Statement, Expression, SyntaxKind, PropertyAssignment, Parameter } from
  * 2. モジュール内の各文に対して transformStatement を呼び出し、構文の種類に応じて不要な型情報（typename）を除去した上で文を変換する
  * 3. 各文に含まれる式（Expression）は transformExpression によって再帰的に処理され、内部の型情報や型注釈も削除される
  * 4. 関数の引数やオブジェクトのプロパティなどの入れ子になった要素も、transformParameter や transformProperty を通じて順次変換される
- * 5. 型定義文（TypeAlias）は出力対象に含めず、JavaScript に不要な型の構造をすべて除去することで、純粋な JavaScript の構文木を生成する
+ * 5. クラスのフィールドは、ES2015 のクラスで書けるようにコンストラクタ内の this への代入に変換される（transformClass）
+ * 6. import 宣言からは、型としてのみ使う名前を除去する（transformImport）
+ * 7. 型定義文（TypeAlias）は出力対象に含めず、JavaScript に不要な型の構造をすべて除去することで、純粋な JavaScript の構文木を生成する
  */
 export function transform(statements: Statement[]) {
   return typescript(statements)
@@ -24,36 +26,171 @@ function typescript(statements: Statement[]) {
       // 変数宣言の場合
       case SyntaxKind.Var:
         return [{ ...statement, typename: undefined, initializer: transformExpression(statement.initializer) }]
-      // 型定義の場合
+      // 型定義・インターフェース宣言の場合は、JavaScriptに存在しないため削除する
       case SyntaxKind.TypeAlias:
+      case SyntaxKind.Interface:
         return []
+      // クラス宣言の場合
+      case SyntaxKind.Class:
+        return [transformClass(statement)]
+      // 関数宣言の場合は、関数式と同じく型注釈を削除する
+      case SyntaxKind.Function:
+        return [transformExpression(statement) as Function]
+      // import 宣言の場合
+      case SyntaxKind.Import:
+        return transformImport(statement)
       // return 文の場合
       case SyntaxKind.Return:
-        return [{ ...statement, expression: transformExpression(statement.expression) }]
+        return [{ ...statement, expression: statement.expression && transformExpression(statement.expression) }]
+      // ブロックの場合
+      case SyntaxKind.Block:
+        return [{ ...statement, statements: statement.statements.flatMap(transformStatement) }]
+      // if文の場合
+      case SyntaxKind.If:
+        return [{
+          ...statement,
+          expression: transformExpression(statement.expression),
+          thenStatement: transformEmbeddedStatement(statement.thenStatement),
+          elseStatement: statement.elseStatement && transformEmbeddedStatement(statement.elseStatement),
+        }]
+      // while文・do-while文の場合
+      case SyntaxKind.While:
+      case SyntaxKind.DoWhile:
+        return [{ ...statement, expression: transformExpression(statement.expression), statement: transformEmbeddedStatement(statement.statement) }]
+      // for文の場合
+      case SyntaxKind.For:
+        return [{
+          ...statement,
+          initializer: statement.initializer && (statement.initializer.kind === SyntaxKind.Var
+            ? transformStatement(statement.initializer)[0] as Var
+            : transformExpression(statement.initializer)),
+          condition: statement.condition && transformExpression(statement.condition),
+          incrementor: statement.incrementor && transformExpression(statement.incrementor),
+          statement: transformEmbeddedStatement(statement.statement),
+        }]
+      // break文・continue文の場合
+      case SyntaxKind.Break:
+      case SyntaxKind.Continue:
+        return [statement]
     }
   }
 
+  // import 宣言を変換する関数
+  // 型としてのみ使う名前（type がついた名前や、import 元で型として export された名前）は JavaScript に存在しないため削除する
+  // 削除した結果、import する名前がなくなった場合は import 宣言自体を削除する
+  // 例）import { a, type B } from "./x" は import { a } from "./x"
+  function transformImport(statement: Import): Statement[] {
+    const specifiers = statement.specifiers.filter(specifier => !isTypeOnlyImportSpecifier(statement, specifier))
+    return specifiers.length ? [{ ...statement, specifiers }] : []
+  }
+
+  // import する名前が、型としてのみ使う名前かどうかを判別する関数
+  // import 元のモジュールが見つからない場合は、値として使う名前として扱う
+  function isTypeOnlyImportSpecifier(statement: Import, specifier: ImportSpecifier) {
+    if (specifier.isTypeOnly) return true
+    const target = statement.module?.exports.get((specifier.propertyName ?? specifier.name).text)
+    return !!target && !target.valueDeclaration
+  }
+
+  // クラス宣言を変換する関数
+  // ES2015 のクラスはフィールドの宣言を書くことができないため、フィールドは削除する
+  // 初期化の式を持つフィールドは、コンストラクタの先頭で this に代入する文に変換する（コンストラクタがない場合は作成する）
+  // 例）class A { x: number = 1 } は class A { constructor() { this.x = 1 } }
+  function transformClass(declaration: Class): Class {
+    const initializers: Statement[] = []
+    for (const element of declaration.elements) {
+      if (element.kind === SyntaxKind.PropertyDeclaration && element.initializer) {
+        const location = { start: element.start, end: element.end, parent: declaration }
+        const self: Expression = { kind: SyntaxKind.This, ...location }
+        const name: AssignmentTarget = { kind: SyntaxKind.PropertyAccess, expression: self, name: element.name, ...location }
+        const expression: Expression = { kind: SyntaxKind.Assignment, name, value: transformExpression(element.initializer), ...location }
+        // フィールドの直前のコメントは、代入する文の直前のコメントとして残す
+        initializers.push({ kind: SyntaxKind.ExpressionStatement, expression, ...location, leadingComments: element.leadingComments })
+      }
+    }
+    const elements: ClassElement[] = []
+    for (const element of declaration.elements) {
+      switch (element.kind) {
+        // メソッドの場合
+        case SyntaxKind.Method:
+          elements.push({ ...element, parameters: element.parameters.map(transformParameter), typename: undefined, body: element.body.flatMap(transformStatement) })
+          break
+        // コンストラクタの場合
+        case SyntaxKind.Constructor:
+          elements.push({ ...element, parameters: element.parameters.map(transformParameter), body: [...initializers, ...element.body.flatMap(transformStatement)] })
+          break
+      }
+    }
+    if (initializers.length && !elements.some(e => e.kind === SyntaxKind.Constructor)) {
+      const constructor: Constructor = { kind: SyntaxKind.Constructor, parameters: [], body: initializers, locals: new Map(), start: declaration.start, end: declaration.start, parent: declaration }
+      elements.unshift(constructor)
+    }
+    return { ...declaration, elements }
+  }
+
+  // if文やwhile文などの中にある1つの文を変換する関数
+  // 型定義のように変換後に文がなくなる場合は、空のブロックに置き換える
+  function transformEmbeddedStatement(statement: Statement): Statement {
+    const [transformed] = transformStatement(statement)
+    return transformed ?? { kind: SyntaxKind.Block, statements: [], locals: new Map(), start: statement.start, end: statement.end, parent: statement.parent }
+  }
+
   // 式 (Expression) の種類に応じて、型情報を削除し、JavaScriptの式に変換する関数
   function transformExpression(expr: Expression): Expression {
     switch (expr.kind) {
       // 識別子の場合
       case SyntaxKind.Identifier:
+      // this の場合
+      case SyntaxKind.This:
       // 数値リテラルの場合
       case SyntaxKind.NumericLiteral:
+      // BigIntリテラルの場合
+      case SyntaxKind.BigIntLiteral:
       // 文字列リテラルの場合
       case SyntaxKind.StringLiteral:
+      // 真偽値・null・undefined の場合
+      case SyntaxKind.BooleanLiteral:
+      case SyntaxKind.NullLiteral:
+      case SyntaxKind.UndefinedLiteral:
         return expr
+      // テンプレートリテラルの場合
+      case SyntaxKind.TemplateExpression:
+        return { ...expr, templateSpans: expr.templateSpans.map(span => ({ ...span, expression: transformExpression(span.expression) })) }
       // オブジェクトの場合
       case SyntaxKind.Object:
         return { ...expr, properties: expr.properties.map(transformProperty) }
+      // 配列リテラルの場合
+      case SyntaxKind.ArrayLiteral:
+        return { ...expr, elements: expr.elements.map(transformExpression) }
       // 関数の場合
       case SyntaxKind.Function:
         return { ...expr, parameters: expr.parameters.map(transformParameter), typename: undefined, body: expr.body.flatMap(transformStatement) }
+      // アロー関数の場合
+      case SyntaxKind.ArrowFunction:
+        return {
+          ...expr,
+          parameters: expr.parameters.map(transformParameter),
+          typename: undefined,
+          body: Array.isArray(expr.body) ? expr.body.flatMap(transformStatement) : transformExpression(expr.body),
+        }
       // 代入の場合
       case SyntaxKind.Assignment:
-        return { ...expr, value: transformExpression(expr.value) }
-      // 関数呼び出しの場合
+        return { ...expr, name: transformExpression(expr.name) as AssignmentTarget, value: transformExpression(expr.value) }
+      // プロパティアクセスの場合
+      case SyntaxKind.PropertyAccess:
+        return { ...expr, expression: transformExpression(expr.expression) }
+      // 要素アクセスの場合
+      case SyntaxKind.ElementAccess:
+        return { ...expr, expression: transformExpression(expr.expression), argumentExpression: transformExpression(expr.argumentExpression) }
+      // 二項演算子の式の場合
+      case SyntaxKind.BinaryExpression:
+        return { ...expr, left: transformExpression(expr.left), right: transformExpression(expr.right) }
+      // 前置単項演算子の式の場合
+      case SyntaxKind.PrefixUnaryExpression:
+        return { ...expr, operand: transformExpression(expr.operand) }
+      // 関数呼び出し・new 式の場合
       case SyntaxKind.Call:
+      case SyntaxKind.New:
         return { ...expr, expression: transformExpression(expr.expression), arguments: expr.arguments.map(transformExpression) }
     }
   }
@@ -64,7 +201,8 @@ function typescript(statements: Statement[]) {
   }
   
   // 関数の引数を変換する関数
+  // 省略可能な引数の "?" は型情報のため削除し、デフォルト値と残余引数の "..." は残す
   function transformParameter(parameter: Parameter): Parameter {
-    return { ...parameter, typename: undefined }
+    return { ...parameter, isOptional: undefined, typename: undefined, initializer: parameter.initializer && transformExpression(parameter.initializer) }
   }
 }
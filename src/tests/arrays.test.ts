@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("配列リテラルの型は、要素の型の配列型とする", () => {
+  const { messages, output } = compile("var a = [1, 2]\nvar b: string[] = a\nvar n: number = a.length\nvar e = []")
+  assert.deepEqual(messages, ["Cannot assign initialiser of type 'number[]' to variable with declared type 'string[]'."])
+  assert.equal(output, "var a = [1, 2];\nvar b = a;\nvar n = a.length;\nvar e = [];")
+})
+
+test("タプル型は、位置ごとの要素の型と要素の数を持つ", () => {
+  const code = "var t: [string, number] = [\"a\", 1]\nvar u: number = t[0]\nvar v = t[2]\nvar w: number[] = t"
+  assert.deepEqual(compile(code).messages, [
+    "Cannot assign initialiser of type 'string' to variable with declared type 'number'.",
+    "Tuple type '[string, number]' of length '2' has no element at index '2'.",
+    "Cannot assign initialiser of type '[string, number]' to variable with declared type 'number[]'.",
+  ])
+})
@@ -0,0 +1,22 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("式を本体に持つアロー関数は、式の型を戻り値の型とする", () => {
+  const { messages, output } = compile("var f = (x: number) => x + 1\nvar r: string = f(1)\nvar k = () => ({ a: 1 })")
+  assert.equal(messages.length, 1)
+  assert.match(messages[0], /^Cannot assign initialiser of type '.*' to variable with declared type 'string'/)
+  assert.equal(output, "var f = (x) => x + 1;\nvar r = f(1);\nvar k = () => ({ a: 1 });")
+})
+
+test("ブロックを本体に持つアロー関数は、return 文の型を戻り値の型とする", () => {
+  const { messages, output } = compile("var g = (a: string) => {\n  return a\n}\nvar s: number = g(\"a\")")
+  assert.equal(messages.length, 1)
+  assert.match(messages[0], /^Cannot assign initialiser of type 'string' to variable with declared type 'number'/)
+  assert.equal(output, "var g = (a) => {\n  return a;\n};\nvar s = g(\"a\");")
+})
+
+test("アロー関数を返すアロー関数を呼び出せる", () => {
+  const { messages } = compile("var mk = () => (y: number) => y\nvar z: number = mk()(1)\nvar e: string = mk()(1)")
+  assert.equal(messages.length, 1)
+})
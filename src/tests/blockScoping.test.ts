@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("let・const はブロックをスコープとし、外側の同じ名前の変数を隠す", () => {
+  const { messages } = compile("let a = 1\n{\n  let a = \"s\"\n  var v: number = a\n}\nvar w: number = a")
+  assert.deepEqual(messages, ["Cannot assign initialiser of type 'string' to variable with declared type 'number'."])
+})
+
+test("const への代入と、同じスコープでの再宣言はエラー", () => {
+  assert.deepEqual(compile("const c = 1\nc = 2").messages, ["Cannot assign to 'c' because it is a constant."])
+  assert.deepEqual(compile("let a = 1\nlet a = 2").messages, ["Cannot redeclare 'a'."])
+})
+
+test("宣言より前で let・const を使うとエラー（関数の中からの参照は除く）", () => {
+  assert.deepEqual(compile("b = 1\nlet b = 2").messages, ["Block-scoped variable 'b' used before its declaration."])
+  assert.deepEqual(compile("function g() { return d }\nlet d = 1").messages, [])
+})
@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+const point = "class Point {\n  x: number = 0\n  y: number\n  constructor(y: number) { this.y = y }\n  move(dx: number): Point { this.x = this.x + dx; return this }\n}\n"
+
+test("フィールドの初期化式はコンストラクタの先頭に移して出力する", () => {
+  const { messages, output } = compile(point)
+  assert.deepEqual(messages, [])
+  assert.equal(output, [
+    "class Point {",
+    "  constructor(y) {",
+    "    this.x = 0;",
+    "    this.y = y;",
+    "  }",
+    "  move(dx) {",
+    "    this.x = this.x + dx;",
+    "    return this;",
+    "  }",
+    "}",
+  ].join("\n"))
+})
+
+test("new で作成したインスタンスは、フィールドとメソッドを持つクラスの型になる", () => {
+  const { messages } = compile(point + "var p = new Point(1)\nvar q: Point = p.move(2)\nvar s: string = p.x\np.z")
+  assert.equal(messages.length, 2)
+  assert.match(messages[0], /^Cannot assign initialiser of type 'number' to variable with declared type 'string'/)
+  assert.equal(messages[1], "Property 'z' does not exist on type 'Point'.")
+})
+
+test("コンストラクタの引数の型をチェックする", () => {
+  const { messages } = compile(point + "var r = new Point(\"a\")")
+  assert.equal(messages.length, 1)
+  assert.match(messages[0], /^Expected argument of type 'number', but got/)
+})
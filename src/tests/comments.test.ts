@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("文の前後とファイル末尾のコメントを出力する", () => {
+  const { output } = compile("// head\nvar x = 1 // trailing\n/* block */ var y = 2\n// eof")
+  assert.equal(output, "// head\nvar x = 1; // trailing\n/* block */ var y = 2;\n// eof")
+})
+
+test("ブロックや関数の本体の閉じ括弧の直前のコメントを出力する", () => {
+  const { output } = compile("function f(a: number) {\n  if (a) { // note\n    a = 2\n    // end of if\n  }\n  // end of body\n}")
+  assert.equal(output, "function f(a) {\n  if (a) {\n    // note\n    a = 2;\n    // end of if\n  }\n  // end of body\n}")
+})
+
+test("クラスの本体とオブジェクトの中のコメントを出力する", () => {
+  const { output } = compile("class C {\n  // method\n  m() {}\n  // end of class\n}\nvar o = { /* c */ a: 1 /* tail */ }")
+  assert.equal(output, "class C {\n  // method\n  m() {}\n  // end of class\n}\nvar o = { /* c */ a: 1 /* tail */ };")
+})
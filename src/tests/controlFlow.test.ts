@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile, compileFiles } from "./utils.js";
+
+test("return・break・continue の後ろの文は到達できない", () => {
+  const code = "function f() {\n  return 1\n  var x = 1\n}\nwhile (true) {\n  break\n  var y = 2\n}"
+  assert.deepEqual(compile(code).messages, ["Unreachable code detected.", "Unreachable code detected."])
+})
+
+test("無限ループの後ろの文は到達できない", () => {
+  assert.deepEqual(compile("while (true) {}\nvar z = 1").messages, ["Unreachable code detected."])
+})
+
+test("strictNullChecks が有効な場合、すべての経路で値を返さない関数はエラー", () => {
+  const code = "function g(x: boolean): number {\n  if (x) return 1\n}"
+  assert.deepEqual(compile(code, { strictNullChecks: true }).messages, [
+    "Function lacks ending return statement and return type does not include 'undefined'.",
+  ])
+  assert.deepEqual(compile(code).messages, [])
+  assert.deepEqual(compile("function h(x: boolean): number {\n  if (x) return 1\n  else return 2\n}", { strictNullChecks: true }).messages, [])
+})
+
+test("import 元のファイルの到達できない文は、そのファイルのエラーとする", () => {
+  const { diagnostics } = compileFiles({
+    "a.ts": 'import { f } from "./b"\nvar x: number = f()',
+    "b.ts": "export function f(): number {\n  return 1\n  var y = 2\n}",
+  })
+  assert.deepEqual(diagnostics.map(d => [d.fileName, d.message]), [["/test/b.ts", "Unreachable code detected."]])
+})
@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+import { DiagnosticCategory } from "../compiler/parser/type.js";
+
+test("エラーはコード・重要度・範囲を持つ", () => {
+  const [diagnostic] = compile("var x: number = \"a\"").diagnostics
+  assert.equal(diagnostic.code, 2320)
+  assert.equal(diagnostic.category, DiagnosticCategory.Error)
+  assert.equal(diagnostic.start, 16)
+  assert.equal(diagnostic.length, 3)
+})
+
+test("構文エラーのメッセージは、期待したトークンをコードの文字列で表す", () => {
+  assert.deepEqual(compile("var x = (1, 2)").diagnostics.map(d => [d.code, d.message]), [[1005, "')' expected."]])
+  assert.deepEqual(compile("var = 1").diagnostics.map(d => [d.code, d.message]), [[1109, "Identifier or literal expected."]])
+  assert.deepEqual(compile("var x = 1 2").messages, ["';' expected."])
+})
+
+test("重複した宣言のエラーは、最初の宣言の位置を関連する情報として持つ", () => {
+  const [diagnostic] = compile("let x = 1\nlet x = 2").diagnostics
+  assert.equal(diagnostic.message, "Cannot redeclare 'x'.")
+  assert.deepEqual(diagnostic.relatedInformation?.map(r => [r.start, r.message]), [[0, "'x' was first declared here."]])
+})
@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("オブジェクトリテラルの余分なプロパティはエラー", () => {
+  const [diagnostic, ...rest] = compile("var w: { a: number } = { a: 1, b: 2 }").diagnostics
+  assert.deepEqual(rest, [])
+  assert.deepEqual(diagnostic.messageChain, ["Object literal may only specify known properties, and 'b' does not exist in type '{ a: number }'."])
+})
+
+test("変数に代入した後のオブジェクトは余分なプロパティを持ってもよい", () => {
+  assert.deepEqual(compile("var o = { a: 1, b: 2 }\nvar w: { a: number } = o").messages, [])
+})
+
+test("ネストしたオブジェクトリテラルの余分なプロパティと、足りないプロパティの詳細を報告する", () => {
+  const [excess] = compile("var w: { a: { x: number } } = { a: { x: 1, y: 2 } }").diagnostics
+  assert.deepEqual(excess.messageChain, [
+    "Types of property 'a' are incompatible.",
+    "Type '{ x: number, y: number }' is not assignable to type '{ x: number }'.",
+    "Object literal may only specify known properties, and 'y' does not exist in type '{ x: number }'.",
+  ])
+  const [missing] = compile("var m: { a: number, b: number } = { a: 1 }").diagnostics
+  assert.deepEqual(missing.messageChain, ["Property 'b' is missing in type '{ a: number }' but required in type '{ a: number, b: number }'."])
+})
+
+test("型引数に推論したオブジェクトリテラルの型は余分なプロパティのチェックを行わない", () => {
+  const code = "function pick<T extends { a: number }>(o: T) { return o }\nvar p: number = pick({ a: 1, b: 2 }).b\nfunction g<T>(o: T) { return o }\nvar z: { a: number } = g({ a: 1, b: 2 })"
+  assert.deepEqual(compile(code).messages, [])
+})
@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("関数宣言は巻き上げられ、宣言より前から呼び出せる", () => {
+  const { messages, output } = compile("var r: string = f(1)\nfunction f(x: number) { return g(x) }\nfunction g(y: number): number { return y }")
+  assert.equal(messages.length, 1)
+  assert.match(messages[0], /^Cannot assign initialiser of type 'number' to variable with declared type 'string'/)
+  assert.equal(output, "var r = f(1);\nfunction f(x) {\n  return g(x);\n}\nfunction g(y) {\n  return y;\n}")
+})
+
+test("関数宣言は自分自身を再帰的に呼び出せる", () => {
+  assert.deepEqual(compile("function fact(n: number): number {\n  if (n < 1) return 1\n  return n * fact(n - 1)\n}").messages, [])
+})
+
+test("同じスコープで同じ名前の関数を宣言するとエラー", () => {
+  assert.deepEqual(compile("function f() {}\nfunction f() {}").messages, ["Cannot redeclare 'f'."])
+})
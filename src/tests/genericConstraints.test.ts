@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("型引数が制約を満たさない場合はエラー", () => {
+  assert.deepEqual(compile("function id<T extends number>(x: T) { return x }\nid(\"a\")").messages, [
+    "Type '\"a\"' does not satisfy the constraint 'number'.",
+  ])
+})
+
+test("型引数を省略した場合はデフォルトの型を使う", () => {
+  const { messages } = compile("type Box<T = number> = { value: T }\nvar a: Box = { value: 1 }\nvar b: Box = { value: \"a\" }")
+  assert.equal(messages.length, 1)
+  assert.match(messages[0], /^Cannot assign initialiser of type '\{ value: string \}'/)
+})
+
+test("制約が配列型の型変数に要素アクセスできる", () => {
+  const code = "function first<T extends number[]>(xs: T, i: number) {\n  var a: number = xs[0]\n  var b: string = xs[i]\n  return xs[0]\n}\nvar f: number = first([1], 0)"
+  assert.deepEqual(compile(code).messages, ["Cannot assign initialiser of type 'number' to variable with declared type 'string'."])
+})
+
+test("文字列は length プロパティを持つ", () => {
+  const code = "function len<T extends { length: number }>(x: T) { return x.length }\nvar n: number = len(\"abc\") + \"abc\".length + len([1])\nvar s: string = \"a\"\nvar o: { length: number } = s"
+  assert.deepEqual(compile(code).messages, [])
+  assert.equal(compile("var o: { length: string } = \"x\"").messages.length, 1)
+})
@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("extends で継承したプロパティと、マージした宣言のプロパティを持つ", () => {
+  const code = "interface Point { x: number }\ninterface Point3D extends Point { z: number }\ninterface Point3D { y: number }\nvar p: Point3D = { x: 1, y: 2, z: 3 }"
+  const { messages, output } = compile(code)
+  assert.deepEqual(messages, [])
+  assert.equal(output, "var p = { x: 1, y: 2, z: 3 };")
+})
+
+test("マージした宣言で同じプロパティの型が異なる場合はエラー", () => {
+  assert.deepEqual(compile("interface I { x: number }\ninterface I { x: string }").messages, [
+    "Subsequent property declarations must have the same type. Property 'x' must be of type 'number', but here has type 'string'.",
+  ])
+})
+
+test("extends をたどって自分自身を継承している場合はエラー", () => {
+  assert.deepEqual(compile("interface Self extends Self {}").messages, ["Type 'Self' recursively references itself as a base type."])
+  assert.deepEqual(compile("interface A extends B {}\ninterface B extends A {}").messages, [
+    "Type 'A' recursively references itself as a base type.",
+    "Type 'B' recursively references itself as a base type.",
+  ])
+})
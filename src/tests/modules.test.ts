@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compileFiles } from "./utils.js";
+
+test("import した値と型を、import 元のファイルの宣言として型チェックする", () => {
+  const { messages, output } = compileFiles({
+    "a.ts": 'import { x, T } from "./b"\nimport { y as z } from "./lib"\nvar a: T = x\nvar s: string = z',
+    "b.ts": "export var x = 1\nexport type T = number",
+    "lib/index.ts": "export var y = 1",
+  })
+  assert.equal(messages.length, 1)
+  assert.match(messages[0], /^Cannot assign initialiser of type 'number' to variable with declared type 'string'/)
+  // 型のみの import は JavaScript に出力しない
+  assert.equal(output, 'import { x } from "./b";\nimport { y as z } from "./lib";\nvar a = x;\nvar s = z;')
+})
+
+test("export されていない名前と、見つからないモジュールの import はエラー", () => {
+  const { diagnostics } = compileFiles({
+    "a.ts": 'import { hidden } from "./b"\nimport { q } from "./missing"',
+    "b.ts": "var hidden = 2",
+  })
+  assert.deepEqual(diagnostics.map(d => [d.fileName, d.message]), [
+    ["/test/a.ts", "Module \"./b\" has no exported member 'hidden'."],
+    ["/test/a.ts", "Cannot find module './missing'."],
+  ])
+})
+
+test("循環した import はエラーとし、それぞれのファイルは1回ずつ読み込んで型チェックする", () => {
+  const { messages } = compileFiles({
+    "a.ts": 'import { b } from "./b"\nexport var a = 1',
+    "b.ts": 'import { a } from "./a"\nexport var b: string = a',
+  })
+  assert.equal(messages.length, 2)
+  assert.equal(messages[0], "Circular import detected: a.ts -> b.ts -> a.ts")
+})
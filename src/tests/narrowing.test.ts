@@ -0,0 +1,19 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("typeof の条件で、ユニオン型の変数の型を絞り込む", () => {
+  const code = "function f(x: string | number) {\n  if (typeof x === \"string\") { var s: string = x }\n  else { var n: number = x }\n  var bad: string = x\n}"
+  const { messages } = compile(code)
+  assert.equal(messages.length, 1)
+  assert.match(messages[0], /^Cannot assign initialiser of type 'string \| number' to variable with declared type 'string'/)
+})
+
+test("等価比較と真偽値の条件で、null とリテラル型を絞り込む", () => {
+  const code = "function f(y: string | null, z: \"a\" | \"b\") {\n  if (y) { var t: string = y }\n  if (y !== null) { var t2: string = y } else { var t3: null = y }\n  if (z === \"a\") { var za: \"a\" = z } else { var zb: \"b\" = z }\n}"
+  assert.deepEqual(compile(code, { strictNullChecks: true }).messages, [])
+})
+
+test("代入した値の型に絞り込む", () => {
+  assert.deepEqual(compile("function f(x: string | number) {\n  x = 1\n  var n: number = x\n}").messages, [])
+})
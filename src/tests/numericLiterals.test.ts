@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+import type { Var, NumericLiteral } from "../compiler/parser/type.js";
+
+test("数値リテラルの値を解釈し、元の表記のまま出力する", () => {
+  const code = "var a = 1.5\nvar b = 0xff\nvar c = 0b101\nvar d = 0o17\nvar e = 1_000\nvar f = 1e3\nvar g = .5"
+  const { module, messages, output } = compile(code)
+  assert.deepEqual(messages, [])
+  const values = module.statements.map(s => ((s as Var).initializer as NumericLiteral).value)
+  assert.deepEqual(values, [1.5, 255, 5, 15, 1000, 1000, 0.5])
+  assert.equal(output, code.split("\n").map(line => line + ";").join("\n"))
+})
+
+test("bigint は number と互いに代入できない", () => {
+  const { messages } = compile("var a: bigint = 10n\nvar b: number = a\nvar c: bigint = 1")
+  assert.equal(messages.length, 2)
+})
+
+test("識別子の先頭と2文字目以降に $ を使うことができる", () => {
+  assert.deepEqual(compile("var $x = 1\nvar a$ = $x").messages, [])
+  assert.ok(compile("var x = 10$").messages.includes("An identifier or keyword cannot immediately follow a numeric literal"))
+})
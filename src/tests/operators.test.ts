@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("演算子の優先順位に従って解析し、必要な括弧のみを出力する", () => {
+  const { messages, output } = compile("var a = 1\nvar x = (a + 2) * 3 - a\nvar y = a + (2 * 3)\nvar z = (-2) ** 2")
+  assert.deepEqual(messages, [])
+  assert.equal(output, "var a = 1;\nvar x = (a + 2) * 3 - a;\nvar y = a + 2 * 3;\nvar z = (-2) ** 2;")
+})
+
+test("演算子の式の型をチェックする", () => {
+  assert.deepEqual(compile('var s: string = "a" + 1\nvar b: boolean = 1 < 2 && !s').messages, [])
+  assert.equal(compile('var n: number = "a" * 2').messages.length, 1)
+})
+
+test("?? と &&・|| を括弧なしで混在させるとエラー", () => {
+  const a = "var a = 1\nvar b = 2\nvar c = 3\n"
+  assert.deepEqual(compile(a + "var x = a ?? b || c").messages, ["'||' and '??' operations cannot be mixed without parentheses."])
+  assert.deepEqual(compile(a + "var x = a && b ?? c").messages, ["'&&' and '??' operations cannot be mixed without parentheses."])
+  const { messages, output } = compile(a + "var x = a ?? (b || c)\nvar y = (a && b) ?? c")
+  assert.deepEqual(messages, [])
+  assert.ok(output.endsWith("var x = a ?? (b || c);\nvar y = (a && b) ?? c;"))
+})
@@ -0,0 +1,21 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+const f = "function f(a: number, b?: string, c = 1, ...rest: string[]) { return a }\n"
+
+test("省略可能な引数・デフォルト値を持つ引数・残余引数に応じて、引数の数と型をチェックする", () => {
+  assert.deepEqual(compile(f + "f(1)\nf(1, \"a\", 2, \"x\", \"y\")").messages, [])
+  assert.deepEqual(compile(f + "f()").messages, ["Expected at least 1 arguments, but got 0."])
+  assert.deepEqual(compile(f + "f(1, \"a\", 2, 3)").messages, ["Expected argument of type 'string', but got '3'."])
+})
+
+test("デフォルト値と残余引数をそのまま出力する", () => {
+  assert.equal(compile(f).output, "function f(a, b, c = 1, ...rest) {\n  return a;\n}")
+})
+
+test("引数の並びと修飾の組み合わせが正しくない場合はエラー", () => {
+  assert.deepEqual(compile("function g(a?: number, b: number) {}").messages, ["A required parameter cannot follow an optional parameter."])
+  assert.deepEqual(compile("function h(...r: number[], x: number) {}").messages, ["A rest parameter must be last in a parameter list."])
+  assert.deepEqual(compile("function k(a?: number = 1) {}").messages, ["Parameter cannot have question mark and initializer."])
+})
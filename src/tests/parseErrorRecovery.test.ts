@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+// 構文エラーを含むコードの一覧
+// どのコードも例外や無限ループにならず、ASTとエラーを返すことを確認する
+const malformedInputs = [
+  "var",
+  "var x =",
+  "var x: = 1",
+  "var = 1",
+  "f(1, 2",
+  "f(,)",
+  "var o = { a: 1",
+  "var o = { 1: 2 }",
+  "var o = { a 1 }",
+  "function f(a: number { return a }",
+  "function f() { return 1",
+  "function (",
+  "type T =",
+  "type = number",
+  "interface I { x: }",
+  "class C { m( }",
+  "if (x { y }",
+  "while (",
+  "for (;;",
+  "x = 1 2 3",
+  ")",
+  "}}}",
+  "var a = [1, 2",
+  "var s = \"abc",
+  "var t = `a${1",
+  "/* unterminated",
+  "import { a from \"./x\"",
+  "export",
+  "@",
+  "var x = 1 +",
+  "(a: number) =>",
+  "a.",
+  "a[",
+]
+
+for (const code of malformedInputs) {
+  test(`構文エラーから回復して解析を続ける: ${JSON.stringify(code)}`, { timeout: 1000 }, () => {
+    const { module, messages } = compile(code)
+    assert.ok(module)
+    assert.ok(messages.length > 0)
+  })
+}
+
+test("構文エラーの後ろの文も解析する", () => {
+  const { module, messages } = compile("var x = )\nvar y: number = \"a\"")
+  assert.equal(module.statements.length, 2)
+  // 2つ目の文の型チェックのエラーも報告する
+  assert.ok(messages.some(m => m.startsWith("Cannot assign initialiser")))
+})
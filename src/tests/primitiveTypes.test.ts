@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+const code = "var b: boolean = true\nvar x: number = null\nvar y: number = undefined\nvar w: void = undefined\nvar k: unknown = 1\nvar kk: number = k\nfunction nv(): never { while (true) {} }\nvar nn: never = 1"
+
+test("unknown は他の型に代入できず、never にはどの値も代入できない", () => {
+  const { messages } = compile(code)
+  assert.equal(messages.length, 2)
+  assert.match(messages[0], /^Cannot assign initialiser of type 'unknown' to variable with declared type 'number'/)
+  assert.match(messages[1], /^Cannot assign initialiser of type '1' to variable with declared type 'never'/)
+})
+
+test("strictNullChecks が有効な場合のみ、null・undefined を他の型に代入できない", () => {
+  const { messages } = compile(code, { strictNullChecks: true })
+  assert.equal(messages.length, 4)
+  assert.match(messages[0], /^Cannot assign initialiser of type 'null' to variable with declared type 'number'/)
+  assert.match(messages[1], /^Cannot assign initialiser of type 'undefined' to variable with declared type 'number'/)
+})
+
+test("型注釈のない引数は、デフォルト値の型をリテラル型から広げた型とする", () => {
+  const { messages } = compile("function f(a = 1, b = \"s\") {\n  var x: number = a\n  var y: string = b\n}\nf(2, \"t\")\nf(\"x\")")
+  assert.deepEqual(messages, ["Expected argument of type 'number', but got '\"x\"'."])
+})
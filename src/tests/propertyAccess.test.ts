@@ -0,0 +1,22 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("プロパティアクセス・要素アクセス・呼び出しをつなげて型チェックする", () => {
+  const code = "var o = { a: { b: [1, 2] }, f: () => ({ v: \"s\" }) }\nvar n: number = o.a.b[0]\nvar s: string = o[\"a\"][\"b\"][1]\nvar v: string = o.f().v"
+  const { messages, output } = compile(code)
+  assert.equal(messages.length, 1)
+  assert.match(messages[0], /^Cannot assign initialiser of type 'number' to variable with declared type 'string'/)
+  assert.match(output, /var s = o\["a"\]\["b"\]\[1\];\nvar v = o\.f\(\)\.v;$/)
+})
+
+test("存在しないプロパティへのアクセスはエラー", () => {
+  assert.deepEqual(compile("var o = { a: 1 }\nvar t = o.zz\nvar u = o[\"zz\"]").messages, [
+    "Property 'zz' does not exist on type '{ a: number }'.",
+    "Property 'zz' does not exist on type '{ a: number }'.",
+  ])
+})
+
+test("添字の値が決まらない要素アクセスは any型とする", () => {
+  assert.deepEqual(compile("var o = { a: 1 }\nvar k = \"a\" + \"\"\nvar x: string = o[k]").messages, [])
+})
@@ -0,0 +1,22 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("複数の return 文の型をまとめ、リテラル型は元のプリミティブ型に広げる", () => {
+  const { messages } = compile("function e(x: boolean) {\n  if (x) return 1\n  return 2\n}\nvar re: string = e(true)")
+  assert.equal(messages.length, 1)
+  assert.match(messages[0], /^Cannot assign initialiser of type 'number' to variable with declared type 'string'/)
+})
+
+test("共通の型がない return 文はエラー", () => {
+  const { messages } = compile("function a(x: boolean) {\n  if (x) return 1\n  return \"s\"\n}")
+  assert.deepEqual(messages, ["No best common type exists among return expressions."])
+})
+
+test("return 文のない関数は void 型を返し、末尾に到達できる関数は strictNullChecks の場合に undefined を含む", () => {
+  const voidMessages = compile("function b() {}\nvar rb: number = b()").messages
+  assert.match(voidMessages[0], /^Cannot assign initialiser of type 'void' to variable with declared type 'number'/)
+  const code = "function c(x: boolean) {\n  if (x) return 1\n}\nvar rc: string = c(true)"
+  assert.match(compile(code).messages[0], /^Cannot assign initialiser of type 'number' to/)
+  assert.match(compile(code, { strictNullChecks: true }).messages[0], /^Cannot assign initialiser of type 'number \| undefined' to/)
+})
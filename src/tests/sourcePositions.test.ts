@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+import { computeLineStarts, getLineAndColumn } from "../compiler/lineMap.js";
+import type { Var } from "../compiler/parser/type.js";
+
+test("位置を1始まりの行番号・列番号に変換する", () => {
+  const lineStarts = computeLineStarts("a\nbc\n")
+  assert.deepEqual(lineStarts, [0, 2, 5])
+  assert.deepEqual(getLineAndColumn(lineStarts, 0), { line: 1, column: 1 })
+  assert.deepEqual(getLineAndColumn(lineStarts, 3), { line: 2, column: 2 })
+  assert.deepEqual(getLineAndColumn(lineStarts, 5), { line: 3, column: 1 })
+})
+
+test("ノードは空白を含まない開始位置と終了位置を持つ", () => {
+  const { module } = compile("var x = 1\n  var y: number = x + 1")
+  const [x, y] = module.statements as Var[]
+  assert.deepEqual([x.start, x.end], [0, 9])
+  assert.deepEqual([y.start, y.end], [12, 33])
+  assert.deepEqual([y.name.start, y.name.end], [16, 17])
+  assert.deepEqual([y.initializer.start, y.initializer.end], [28, 33])
+})
+
+test("エラーの範囲は、エラーの原因となったノードの範囲になる", () => {
+  const [diagnostic] = compile("var x = 1\nvar y: string = x + 1").diagnostics
+  assert.deepEqual([diagnostic.start, diagnostic.length], [26, 5])
+})
@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("if・while・for・do 文とブロックを型チェックし、出力する", () => {
+  const code = "var x = 1\nif (x > 0) { x = 2 } else { x = \"a\" }\nwhile (x < 10) { x = x + 1; if (x == 5) continue }\nfor (var i = 0; i < 3; i = i + 1) { break }\ndo { x = 1 } while (x < 1)"
+  const { messages, output } = compile(code)
+  assert.equal(messages.length, 1)
+  assert.match(messages[0], /^Cannot assign value of type .* to variable of type 'number'\.$/)
+  assert.equal(output, [
+    "var x = 1;",
+    "if (x > 0) {",
+    "  x = 2;",
+    "} else {",
+    "  x = \"a\";",
+    "}",
+    "while (x < 10) {",
+    "  x = x + 1;",
+    "  if (x == 5) continue;",
+    "}",
+    "for (var i = 0; i < 3; i = i + 1) {",
+    "  break;",
+    "}",
+    "do {",
+    "  x = 1;",
+    "} while (x < 1);",
+  ].join("\n"))
+})
+
+test("ループの外の break・continue はエラー（関数の中からループの外へは出られない）", () => {
+  assert.deepEqual(compile("break").messages, ["A 'break' statement can only be used within an enclosing iteration statement."])
+  assert.deepEqual(compile("while (true) {\n  function f() { continue }\n  break\n}").messages, [
+    "A 'continue' statement can only be used within an enclosing iteration statement.",
+  ])
+})
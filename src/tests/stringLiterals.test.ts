@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+import type { Var, StringLiteral } from "../compiler/parser/type.js";
+
+test("エスケープシーケンスとシングルクォートの文字列を解釈し、元の表記のまま出力する", () => {
+  const code = "var a = \"a\\tb\\x41\\u0042\\u{43}\"\nvar b = 'it\\'s'"
+  const { module, messages, output } = compile(code)
+  assert.deepEqual(messages, [])
+  const values = module.statements.map(s => ((s as Var).initializer as StringLiteral).value)
+  assert.deepEqual(values, ["a\tbABC", "it's"])
+  assert.equal(output, "var a = \"a\\tb\\x41\\u0042\\u{43}\";\nvar b = 'it\\'s';")
+})
+
+test("テンプレートリテラルは string 型になり、埋め込んだ式も型チェックする", () => {
+  const { messages, output } = compile("var n = 1\nvar t = `x${n}y${n + 1}z`\nvar u: number = `a`\nvar v = `${m}`")
+  assert.deepEqual(messages, [
+    "Cannot assign initialiser of type 'string' to variable with declared type 'number'.",
+    "Could not resolve m",
+  ])
+  assert.match(output, /var t = `x\$\{n\}y\$\{n \+ 1\}z`;/)
+})
+
+test("閉じていない文字列と不正なエスケープシーケンスはエラー", () => {
+  assert.deepEqual(compile("var s = \"abc").messages, ["Unterminated string literal"])
+  assert.deepEqual(compile("var q = \"\\u{ZZ}\"").messages, ["Invalid Unicode escape sequence"])
+})
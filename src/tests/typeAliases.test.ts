@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("ジェネリック型エイリアスを型引数で具体化する", () => {
+  const { messages } = compile("type Box<T> = { value: T }\nvar b: Box<number> = { value: 1 }\nvar c: Box<string> = { value: 1 }")
+  assert.equal(messages.length, 1)
+  assert.match(messages[0], /to variable with declared type 'Box<string>'/)
+})
+
+test("自分自身を直接参照する型エイリアスはエラー", () => {
+  assert.deepEqual(compile("type R<T> = R<T>").messages, ["Type alias 'R' circularly references itself."])
+  assert.deepEqual(compile("type R2 = R2").messages, ["Type alias 'R2' circularly references itself."])
+  assert.deepEqual(compile("type R3 = R3[]").messages, ["Type alias 'R3' circularly references itself."])
+  assert.deepEqual(compile("type A = B\ntype B = A").messages, ["Type alias 'A' circularly references itself."])
+})
+
+test("オブジェクト型のプロパティから自分自身を参照できる", () => {
+  assert.deepEqual(compile("type List = { next: List | null, value: number }\nvar l: List = { next: { next: null, value: 1 }, value: 2 }").messages, [])
+  const { messages } = compile("type R4 = { a: R4 }\nvar r: R4 = { a: { a: 1 } }")
+  assert.equal(messages.length, 1)
+  assert.match(messages[0], /to variable with declared type '\{ a: \.\.\. \}'/)
+})
+
+test("自分自身をプロパティの型に持つ型同士を比較できる", () => {
+  const code = "type L1 = { n: L1 }\ntype L2 = { n: L2, m: number }\nfunction f(b: L2) {\n  var a: L1 = b\n  var c: L2 = a\n}"
+  const { messages } = compile(code)
+  assert.equal(messages.length, 1)
+  assert.match(messages[0], /^Cannot assign initialiser of type '\{ n: \.\.\. \}' to variable with declared type '\{ n: \.\.\., m: number \}'/)
+})
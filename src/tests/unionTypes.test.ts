@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compile } from "./utils.js";
+
+test("ユニオン型・リテラル型に代入できるかをチェックする", () => {
+  assert.deepEqual(compile('var a: string | number = 1\nvar b: "on" | "off" = "on"').messages, [])
+  assert.deepEqual(compile('var b: "on" | "off" = "x"').messages, ["Cannot assign initialiser of type '\"x\"' to variable with declared type '\"on\" | \"off\"'."])
+})
+
+test("インターセクション型はすべての型のプロパティを持つ", () => {
+  assert.deepEqual(compile("type A = { a: number }\ntype B = { b: string }\nvar x: A & B = { a: 1, b: \"s\" }\nvar n: number = x.a").messages, [])
+})
+
+test("ユニオン型の重複とリテラル型をまとめ、オブジェクト型はそのまま残す", () => {
+  const { messages } = compile('var s: "on" | string | string = 1\nvar o: { a: number } | { a: number, b: string } = 1')
+  assert.deepEqual(messages, [
+    "Cannot assign initialiser of type '1' to variable with declared type 'string'.",
+    "Cannot assign initialiser of type '1' to variable with declared type '{ a: number } | { a: number, b: string }'.",
+  ])
+  assert.deepEqual(compile('var e: { a: number } | { a: number, b: string } = { a: 1, b: "s" }').messages, [])
+})
+
+test("var の初期化式のリテラル型は、元のプリミティブ型に広げる", () => {
+  assert.deepEqual(compile('var x = "on"\nx = "off"').messages, [])
+})
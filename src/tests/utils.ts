@@ -0,0 +1,45 @@
+import * as path from "node:path";
+import { createProgram } from "../compiler/program.js";
+import type { CompilerHost } from "../compiler/program.js";
+import type { CompilerOptions, Diagnostic, Module } from "../compiler/parser/type.js";
+
+// テストで解析するファイルを置くディレクトリ（ディスクには書き込まず、メモリ上のファイルとして読み込む）
+const testDirectory = path.resolve("/test")
+
+// テストで解析した結果を表す型
+export type TestResult = {
+  module: Module              // ルートのファイルのAST
+  diagnostics: Diagnostic[]   // 発生したエラーの一覧
+  messages: string[]          // 発生したエラーのメッセージの一覧
+  output: string              // ルートのファイルを JavaScript に変換した結果
+}
+
+// 1つのファイルのコードを解析し、AST・エラー・変換後の JavaScript を返す関数
+// 例）compile("var x: number = 1").messages は []
+export function compile(code: string, options: CompilerOptions = {}): TestResult {
+  return compileFiles({ "input.ts": code }, options)
+}
+
+// 複数のファイルからなるプログラムを、最初のファイルをルートとして解析する関数
+// 例）compileFiles({ "a.ts": 'import { x } from "./b"', "b.ts": "export var x = 1" })
+export function compileFiles(files: Record<string, string>, options: CompilerOptions = {}): TestResult {
+  const host: CompilerHost = {
+    fileExists: fileName => getFile(fileName) !== undefined,
+    readFile: getFile,
+    getCurrentDirectory: () => testDirectory,
+  }
+  const [rootFileName] = Object.keys(files)
+  const program = createProgram([rootFileName], options, host)
+  const fileName = path.join(testDirectory, rootFileName)
+  const diagnostics = program.getDiagnostics()
+  return {
+    module: program.modules.get(fileName)!,
+    diagnostics,
+    messages: diagnostics.map(d => d.message),
+    output: program.emit().get(fileName.replace(/\.ts$/, ".js")) ?? "",
+  }
+
+  function getFile(fileName: string): string | undefined {
+    return files[path.relative(testDirectory, fileName)]
+  }
+}